@@ -1,156 +1,829 @@
 
-import React, { useState, useRef, useCallback } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
+import React, { useState, useRef, useCallback, useMemo, useEffect } from 'react';
 import DrawingCanvas, { DrawingCanvasRef } from './components/DrawingCanvas';
 import CameraTracker, { CameraTrackerRef } from './components/CameraTracker';
-import { ART_COACH_SYSTEM_INSTRUCTION, LESSONS, FRAME_RATE } from './constants';
-import { decodeAudioData, decode, createPcmBlob } from './services/audioUtils';
-import { TranscriptionItem } from './types';
-
-type TrackingMode = 'digital' | 'physical';
+import StrokeQualityPanel from './components/StrokeQualityPanel';
+import SessionHistory from './components/SessionHistory';
+import SessionReportView from './components/SessionReportView';
+import ProgressDashboard from './components/ProgressDashboard';
+import TimelapsePanel from './components/TimelapsePanel';
+import CoachSettingsPanel from './components/CoachSettingsPanel';
+import TranscriptLog from './components/TranscriptLog';
+import LessonRunner from './components/LessonRunner';
+import LessonEditor from './components/LessonEditor';
+import CoachInput from './components/CoachInput';
+import MicControl, { MicMode } from './components/MicControl';
+import AnnotationOverlay from './components/AnnotationOverlay';
+import GuideOverlay from './components/GuideOverlay';
+import PerspectiveCheckPanel from './components/PerspectiveCheckPanel';
+import GesturePanel from './components/GesturePanel';
+import ReferenceControls from './components/ReferenceControls';
+import ReferenceOverlay from './components/ReferenceOverlay';
+import ValueStudyPanel from './components/ValueStudyPanel';
+import {
+  ART_COACH_SYSTEM_INSTRUCTION, STROKE_METRICS_INSTRUCTION, PERSPECTIVE_INSTRUCTION, LAYERS_INSTRUCTION, ANNOTATION_INSTRUCTION, REFERENCE_INSTRUCTION, VALUE_STUDY_INSTRUCTION, LEARNER_PROFILE_INSTRUCTION, LESSONS, STROKE_METRICS_INTERVAL_MS,
+  SNAPSHOT_INTERVAL_MS, CRITIQUE_NOW_PROMPT, GESTURE_DURATIONS_SEC, REFERENCE_IMAGE_MAX_DIMENSION, TIMELAPSE_OPTIONS, TIMELAPSE_POLL_MS, VALUE_STUDY_POLL_MS, VALUE_STUDY_INTERVAL_MS,
+  VALUE_CHANGE_THRESHOLD, VALUE_MAP_MAX_DIMENSION, JPEG_QUALITY, FRAME_POLL_MS, FRAME_SCHEDULER_OPTIONS, STILL_CRITIQUE_MAX_DIMENSION,
+  STILL_CRITIQUE_JPEG_QUALITY
+} from './constants';
+import { decodeAudioData, decode } from './services/audioUtils';
+import { AudioCapture, MicGate, startAudioCapture } from './services/audioCapture';
+import { FrameScheduler, FrameSchedulerStats, createFrameScheduler } from './services/frameScheduler';
+import { analyzeStrokes, formatStrokeReport } from './services/strokeAnalysis';
+import { formatLayerNote } from './services/layers';
+import { analyzePerspective, formatPerspectiveReport } from './services/perspectiveGuides';
+import {
+  loadReferenceFiles, releaseReferences, shuffleReferences, startGestureRun, currentReference, poseTimeRemaining,
+  pauseGestureRun, resumeGestureRun, advanceGestureRun, loadImageAsJpeg, formatGesturePrompt
+} from './services/gesturePractice';
+import { composeReferenceFrame, formatReferenceNote, loadReferenceImage, releaseReferenceImage } from './services/referenceComparison';
+import {
+  VALUE_STUDY_CLOSED_NOTE, analyzeValues, drawLightMarker, encodeValueStudy, formatValueStudy, valueReportDelta
+} from './services/valueStudy';
+import { ANNOTATION_TOOLS, applyAnnotationCall, reshowTurn } from './services/annotations';
+import { getSession, saveSession } from './services/sessionStore';
+import { generateSessionReport } from './services/sessionReport';
+import { CritiqueContext, formatCritiqueRequest, requestStillCritique } from './services/stillCritique';
+import {
+  formatLearnerProfile, loadProgress, measureLocalScores, recordProgress, setCoachScores, suggestNextLesson
+} from './services/progress';
+import { TimelapseInfo, createTimelapseRecorder } from './services/timelapse';
+import { formatCoachStyle, loadCoachSettings, saveCoachSettings } from './services/coachSettings';
+import { addCritique, addTurn, appendFragment, closeOpenTurn, markInterrupted, togglePinned } from './services/transcript';
+import { CoachSession } from './services/coachSession';
+import { createCoachProvider } from './services/coachProviders';
+import {
+  ConnectionManager, ConnectionStatus, createConnectionManager, formatResumeSummary
+} from './services/connectionManager';
+import {
+  loadCompletedLessons, markLessonCompleted, missingPrerequisites, startLessonRun, goToStep,
+  advanceLessonRun, currentStep, isStepComplete, formatLessonOutline, formatStepPrompt, formatLessonReferences
+} from './services/curriculum';
+import {
+  createBlankLesson, createLessonPack, deleteCustomLesson, importCustomLessons, loadCustomLessons, parseLessonPack, saveCustomLesson
+} from './services/lessonLibrary';
+import { downloadText, slugify } from './services/download';
+import { Annotation, CoachSettings, GestureAttempt, GestureReference, GestureRunState, GuideSettings, ReferenceImage, ReferenceSettings, Layer, Lesson, LessonReference, LessonRunState, PerspectiveReport, ProgressEntry, SavedSession, Stroke, StrokeQualityReport, TrackingMode, TranscriptionItem, ValueReport, ValueStudySettings } from './types';
 
 const App: React.FC = () => {
-  const [isActive, setIsActive] = useState(false);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [currentLesson, setCurrentLesson] = useState(LESSONS[0]);
+  const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('idle');
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  const [currentLesson, setCurrentLesson] = useState<Lesson>(LESSONS[0]);
+  const [lessonRun, setLessonRun] = useState<LessonRunState | null>(null);
+  const [completedLessons, setCompletedLessons] = useState<string[]>(loadCompletedLessons);
+  const [customLessons, setCustomLessons] = useState<Lesson[]>(loadCustomLessons);
+  const [editingLesson, setEditingLesson] = useState<Lesson | null>(null);
+  const [lessonSaveError, setLessonSaveError] = useState<string | null>(null);
+  const [libraryMessage, setLibraryMessage] = useState<{ text: string; error: boolean } | null>(null);
+  const lessons = useMemo(() => [...LESSONS, ...customLessons], [customLessons]);
+  const [now, setNow] = useState(Date.now());
   const [transcriptions, setTranscriptions] = useState<TranscriptionItem[]>([]);
   const [trackingMode, setTrackingMode] = useState<TrackingMode>('digital');
+  const [strokes, setStrokes] = useState<Stroke[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
+  const [reportSession, setReportSession] = useState<SavedSession | null>(null);
+  // Last session whose saved record changed, so an open history list can catch up
+  const [updatedSession, setUpdatedSession] = useState<SavedSession | null>(null);
+  const [reportError, setReportError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ProgressEntry[]>(loadProgress);
+  const [showProgress, setShowProgress] = useState(false);
+  const [showTimelapse, setShowTimelapse] = useState(false);
+  const [timelapseRecording, setTimelapseRecording] = useState(false);
+  const [timelapseInfo, setTimelapseInfo] = useState<TimelapseInfo>({ frames: 0, captions: 0, durationMs: 0 });
+  const [coachSettings, setCoachSettings] = useState<CoachSettings>(loadCoachSettings);
+  const [showCoachSettings, setShowCoachSettings] = useState(false);
+  const [micMode, setMicMode] = useState<MicMode>('open');
+  const [isPushingToTalk, setIsPushingToTalk] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [frameStats, setFrameStats] = useState<FrameSchedulerStats | null>(null);
+  const [layerNote, setLayerNote] = useState<string | null>(null);
+  const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [guides, setGuides] = useState<GuideSettings | null>(null);
+  const [showGesture, setShowGesture] = useState(false);
+  const [gestureReferences, setGestureReferences] = useState<GestureReference[]>([]);
+  const [gestureRun, setGestureRun] = useState<GestureRunState | null>(null);
+  const [gestureDuration, setGestureDuration] = useState(GESTURE_DURATIONS_SEC[0]);
+  const [gestureAttempts, setGestureAttempts] = useState<GestureAttempt[]>([]);
+  const [reference, setReference] = useState<ReferenceImage | null>(null);
+  const [referenceSettings, setReferenceSettings] = useState<ReferenceSettings>({ layout: 'side-by-side', view: 'hidden', opacity: 0.4 });
+  const [showValueStudy, setShowValueStudy] = useState(false);
+  const [valueSettings, setValueSettings] = useState<ValueStudySettings>({ steps: 5, lightAngleDeg: null });
+  const [valueReport, setValueReport] = useState<ValueReport | null>(null);
+  const [valueMapUrl, setValueMapUrl] = useState<string | null>(null);
+  const [critiquePending, setCritiquePending] = useState(false);
+  const [critiqueError, setCritiqueError] = useState<string | null>(null);
+  const strokeReport = useMemo(() => analyzeStrokes(strokes), [strokes]);
+  const perspectiveReport = useMemo(() => analyzePerspective(strokes, guides), [strokes, guides]);
+  const suggestedLesson = useMemo(() => suggestNextLesson(lessons, completedLessons, progress), [lessons, completedLessons, progress]);
+  const isActive = connectionStatus === 'live' || connectionStatus === 'reconnecting';
+  const isConnecting = connectionStatus === 'connecting';
   
   const canvasRef = useRef<DrawingCanvasRef>(null);
   const cameraRef = useRef<CameraTrackerRef>(null);
-  const sessionRef = useRef<any>(null);
-  const audioContextRef = useRef<{ input: AudioContext; output: AudioContext } | null>(null);
+  const coachProviderRef = useRef(createCoachProvider());
+  const timelapseRef = useRef(createTimelapseRecorder(TIMELAPSE_OPTIONS));
+  const timelapseRecordingRef = useRef(timelapseRecording);
+  // Time of the last frame in the last exported timelapse, so an unsaved one isn't thrown away
+  const timelapseExportedAtRef = useRef(0);
+  timelapseRecordingRef.current = timelapseRecording;
+  const sessionRef = useRef<CoachSession | null>(null);
+  const connectionRef = useRef<ConnectionManager | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const outputContextRef = useRef<AudioContext | null>(null);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const nextStartTimeRef = useRef<number>(0);
   const frameIntervalRef = useRef<number | null>(null);
+  const frameSchedulerRef = useRef<FrameScheduler | null>(null);
+  const strokeReportRef = useRef<StrokeQualityReport | null>(null);
+  const lastMetricsSentRef = useRef<{ report: StrokeQualityReport | null; at: number }>({ report: null, at: 0 });
+  const perspectiveReportRef = useRef<PerspectiveReport | null>(null);
+  const perspectiveNoteRef = useRef<string | null>(null);
+  const lastPerspectiveSentRef = useRef<{ note: string | null; at: number }>({ note: null, at: 0 });
+  // Full record of the running session, checkpointed to IndexedDB as it goes
+  const sessionRecordRef = useRef<Omit<SavedSession, 'endedAt' | 'finalArtwork'> | null>(null);
+  const lastAnnouncedStepRef = useRef<string | null>(null);
+  // Lesson whose reference images the current connection has already been sent
+  const lessonReferencesSentRef = useRef<string | null>(null);
+  const lastLayerNoteRef = useRef<string | null>(null);
+  const lastReferenceNoteRef = useRef<string | null>(null);
+  const reportSessionIdRef = useRef<string | null>(null);
+  const referenceRef = useRef(reference);
+  referenceRef.current = reference;
+  const referenceSettingsRef = useRef(referenceSettings);
+  referenceSettingsRef.current = referenceSettings;
+  const compositeCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const valueMapCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const valueScratchCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // What the coach last got from the value study; null means it has nothing current
+  const lastValueSentRef = useRef<{ report: ValueReport; settings: ValueStudySettings; at: number } | null>(null);
+  // Counts finished coach turns; ties transcript entries to the annotations drawn in the same turn
+  const coachTurnRef = useRef(0);
+  // The whole conversation since the app opened; the session record holds the part after sessionTranscriptStartRef
+  const transcriptRef = useRef<TranscriptionItem[]>([]);
+  const sessionTranscriptStartRef = useRef(0);
+  const annotationsRef = useRef(annotations);
+  annotationsRef.current = annotations;
+  const lessonRunRef = useRef(lessonRun);
+  lessonRunRef.current = lessonRun;
+  strokeReportRef.current = strokeReport;
+  perspectiveReportRef.current = perspectiveReport;
+  perspectiveNoteRef.current = perspectiveReport && guides ? formatPerspectiveReport(perspectiveReport, guides) : null;
+
+  // Every transcript change goes through here so the session record sees the same turns as the log
+  const updateTranscript = useCallback((update: (items: TranscriptionItem[]) => TranscriptionItem[]) => {
+    const items = update(transcriptRef.current);
+    if (items === transcriptRef.current) return;
+    transcriptRef.current = items;
+    const record = sessionRecordRef.current;
+    if (record) record.transcript = items.slice(sessionTranscriptStartRef.current);
+    setTranscriptions(items);
+  }, []);
 
+  // Streaming fragments are merged into the open turn of the same speaker
   const addTranscription = useCallback((text: string, type: 'user' | 'ai') => {
-    setTranscriptions(prev => [...prev, { text, type, timestamp: Date.now() }].slice(-15));
+    const now = Date.now();
+    const turn = type === 'ai' ? coachTurnRef.current : undefined;
+    if (timelapseRecordingRef.current) {
+      timelapseRef.current.addCaption({ text, type, timestamp: now, turn });
+      setTimelapseInfo(timelapseRef.current.info);
+    }
+    updateTranscript(items => appendFragment(items, text, type, turn, now));
+  }, [updateTranscript]);
+
+  const addTypedMessage = (text: string) => updateTranscript(items => addTurn(items, text, 'user'));
+
+  // Marks drawn this visit, for lesson step goals; unlike strokes.length it isn't lowered by clear or undo
+  const [drawnCount, setDrawnCount] = useState(0);
+  const handleStrokeEnd = useCallback((stroke: Stroke) => {
+    if (stroke.tool !== 'eraser' && stroke.tool !== 'blend') setDrawnCount(n => n + 1);
   }, []);
 
-  const stopSession = () => {
-    if (sessionRef.current) {
-      sessionRef.current.close();
-      sessionRef.current = null;
+  const micGate: MicGate = micMode === 'muted' ? 'closed'
+    : micMode === 'push-to-talk' ? (isPushingToTalk ? 'open' : 'closed')
+    : 'vad';
+  const micGateRef = useRef(micGate);
+  micGateRef.current = micGate;
+
+  useEffect(() => {
+    captureRef.current?.setGate(micGate);
+  }, [micGate]);
+
+  // Hold Space to talk, unless the student is typing
+  useEffect(() => {
+    if (micMode !== 'push-to-talk') return;
+    const isTyping = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      return !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== 'Space' || e.repeat || isTyping(e)) return;
+      e.preventDefault();
+      setIsPushingToTalk(true);
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== 'Space') return;
+      setIsPushingToTalk(false);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      setIsPushingToTalk(false);
+    };
+  }, [micMode]);
+
+  const selectLesson = (lesson: Lesson) => {
+    setCurrentLesson(lesson);
+    setLessonRun(null);
+  };
+
+  const beginLesson = () => setLessonRun(startLessonRun(currentLesson, drawnCount));
+
+  const announceStep = useCallback((lesson: Lesson, run: LessonRunState) => {
+    const key = `${run.lessonId}:${run.stepIndex}:${run.completed}`;
+    if (!sessionRef.current || lastAnnouncedStepRef.current === key) return;
+    lastAnnouncedStepRef.current = key;
+    const prompt = formatStepPrompt(lesson, run);
+    if (lesson.references?.length && lessonReferencesSentRef.current !== lesson.id) {
+      lessonReferencesSentRef.current = lesson.id;
+      sessionRef.current.sendText(`${formatLessonReferences(lesson)}\n${prompt}`, { images: lesson.references.map(ref => ref.image) });
+    } else {
+      sessionRef.current.sendText(prompt);
     }
+  }, []);
+
+  const openLessonEditor = (lesson: Lesson) => {
+    setLessonSaveError(null);
+    setEditingLesson(lesson);
+  };
+
+  const saveLesson = (lesson: Lesson) => {
+    const isNew = !customLessons.some(l => l.id === lesson.id);
+    try {
+      setCustomLessons(saveCustomLesson(lesson));
+    } catch (err) {
+      setLessonSaveError(err instanceof Error ? err.message : 'The lesson could not be saved.');
+      return;
+    }
+    if (isNew || currentLesson.id === lesson.id) selectLesson(lesson);
+    setEditingLesson(null);
+  };
+
+  const deleteLesson = (lesson: Lesson) => {
+    setCustomLessons(deleteCustomLesson(lesson.id));
+    if (currentLesson.id === lesson.id) selectLesson(LESSONS[0]);
+    setEditingLesson(null);
+  };
+
+  const exportLessons = (exported: Lesson[]) => {
+    const name = exported.length === 1 ? slugify(exported[0].title) : `lesson-pack-${new Date().toISOString().slice(0, 10)}`;
+    downloadText(createLessonPack(exported), `${name}.json`, 'application/json');
+  };
+
+  const importLessonPack = async (file: File) => {
+    const { lessons: imported, errors } = parseLessonPack(await file.text(), LESSONS.map(l => l.id), customLessons.map(l => l.id));
+    try {
+      if (imported.length > 0) setCustomLessons(importCustomLessons(imported));
+    } catch (err) {
+      setLibraryMessage({ text: err instanceof Error ? err.message : 'The lessons could not be saved.', error: true });
+      return;
+    }
+    const summary = imported.length > 0 ? `Imported ${imported.length} lesson${imported.length === 1 ? '' : 's'}.` : 'No lessons were imported.';
+    setLibraryMessage({ text: [summary, ...errors].join(' '), error: errors.length > 0 });
+  };
+
+  // Lesson references are stored as JPEG data; the comparison view needs them as an image file
+  const applyLessonReference = (ref: LessonReference) => {
+    fetch(`data:image/jpeg;base64,${ref.image}`)
+      .then(response => response.blob())
+      .then(blob => loadReference(new File([blob], ref.name, { type: 'image/jpeg' })))
+      .catch(err => console.error('Failed to use lesson reference:', err));
+  };
+
+  // Drive timed steps and stroke-count criteria
+  useEffect(() => {
+    if (!lessonRun || lessonRun.completed) return;
+    const tick = window.setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      const step = currentStep(currentLesson, lessonRun);
+      if (step && isStepComplete(step, lessonRun, drawnCount, trackingMode, t)) {
+        setLessonRun(advanceLessonRun(currentLesson, lessonRun, drawnCount, t));
+      }
+    }, 250);
+    return () => window.clearInterval(tick);
+  }, [lessonRun, currentLesson, drawnCount, trackingMode]);
+
+  useEffect(() => {
+    if (!lessonRun) return;
+    if (lessonRun.completed) setCompletedLessons(markLessonCompleted(lessonRun.lessonId));
+    if (isActive) announceStep(currentLesson, lessonRun);
+  }, [lessonRun, isActive, currentLesson, announceStep]);
+
+  const handleLayersChange = useCallback((layers: Layer[]) => setLayerNote(formatLayerNote(layers)), []);
+
+  // Tell the coach which layers it is looking at whenever that changes
+  useEffect(() => {
+    if (connectionStatus !== 'live' || trackingMode !== 'digital' || !layerNote || !sessionRef.current) return;
+    if (lastLayerNoteRef.current === layerNote) return;
+    lastLayerNoteRef.current = layerNote;
+    sessionRef.current.sendText(layerNote, { turnComplete: false });
+  }, [layerNote, connectionStatus, trackingMode]);
+
+  // Tell the coach whenever the reference or the way frames show it changes
+  useEffect(() => {
+    if (connectionStatus !== 'live' || !sessionRef.current) return;
+    const note = reference || lastReferenceNoteRef.current ? formatReferenceNote(reference, referenceSettings.layout) : null;
+    if (!note || lastReferenceNoteRef.current === note) return;
+    lastReferenceNoteRef.current = note;
+    sessionRef.current.sendText(note, { turnComplete: false });
+  }, [reference, referenceSettings.layout, connectionStatus]);
+
+  const loadGestureReferences = (files: FileList) => {
+    const loaded = loadReferenceFiles(files);
+    if (loaded.length === 0) return;
+    releaseReferences(gestureReferences);
+    setGestureReferences(loaded);
+    setGestureRun(null);
+  };
+
+  // Object URLs live as long as the loaded set
+  const gestureReferencesRef = useRef(gestureReferences);
+  gestureReferencesRef.current = gestureReferences;
+  useEffect(() => () => releaseReferences(gestureReferencesRef.current), []);
+
+  const startGesturePractice = () => {
+    canvasRef.current?.clear();
+    setGestureRun(startGestureRun(shuffleReferences(gestureReferences), gestureDuration));
+  };
+
+  // Saves the attempt, clears the canvas for the next pose and hands both images to the coach
+  const completePose = async (run: GestureRunState, save: boolean) => {
+    const reference = currentReference(run);
+    // Read from the canvas, not state: the countdown interval holds this closure from when the pose began
+    const drawn = canvasRef.current?.getStrokes().length ?? 0;
+    const attempt = save && drawn > 0 ? captureFrame('digital') : null;
+    canvasRef.current?.clear();
+    setGestureRun(advanceGestureRun(run));
+    if (!reference || !attempt) return;
+
+    const referenceImage = await loadImageAsJpeg(reference.url, REFERENCE_IMAGE_MAX_DIMENSION).catch(err => {
+      console.error('Failed to encode reference image:', err);
+      return null;
+    });
+    const record: GestureAttempt = {
+      referenceName: reference.name,
+      reference: referenceImage,
+      attempt,
+      durationSec: run.durationSec,
+      completedAt: Date.now()
+    };
+    setGestureAttempts(prev => [...prev, record]);
+    sessionRecordRef.current?.gestures?.push(record);
+    sessionRef.current?.sendText(formatGesturePrompt(run, reference, !!referenceImage), {
+      images: referenceImage ? [referenceImage, attempt] : [attempt]
+    });
+  };
+
+  // Count down the current pose and move on when it runs out
+  useEffect(() => {
+    if (!gestureRun || gestureRun.finished || gestureRun.pausedAt !== null) return;
+    const tick = window.setInterval(() => {
+      const t = Date.now();
+      setNow(t);
+      if (poseTimeRemaining(gestureRun, t) <= 0) {
+        window.clearInterval(tick);
+        completePose(gestureRun, true);
+      }
+    }, 250);
+    return () => window.clearInterval(tick);
+  }, [gestureRun]);
+
+  const captureFrame = (mode: TrackingMode) => mode === 'digital'
+    ? canvasRef.current?.getFrame()
+    : cameraRef.current?.getFrame();
+
+  const captureFrameCanvas = (mode: TrackingMode) => mode === 'digital'
+    ? canvasRef.current?.getFrameCanvas()
+    : cameraRef.current?.getFrameCanvas();
+
+  // What the coach sees: the frame alone, or combined with the loaded reference
+  const captureCoachCanvas = (mode: TrackingMode) => {
+    const source = captureFrameCanvas(mode);
+    const ref = referenceRef.current;
+    if (!source || !ref) return source;
+    if (!compositeCanvasRef.current) compositeCanvasRef.current = document.createElement('canvas');
+    return composeReferenceFrame(compositeCanvasRef.current, source, ref, referenceSettingsRef.current.layout);
+  };
+
+  // Keep timelapse frames from whichever surface is showing while recording is on
+  useEffect(() => {
+    if (!timelapseRecording) return;
+    const interval = window.setInterval(() => {
+      const source = captureFrameCanvas(trackingMode);
+      if (!source) return;
+      timelapseRef.current.capture(source).then(kept => {
+        if (kept) setTimelapseInfo(timelapseRef.current.info);
+      });
+    }, TIMELAPSE_POLL_MS);
+    return () => window.clearInterval(interval);
+  }, [timelapseRecording, trackingMode]);
+
+  // Time with recording off is left out of the timelapse
+  useEffect(() => {
+    if (!timelapseRecording) timelapseRef.current.pause();
+  }, [timelapseRecording]);
+
+  // Re-measure values while the study is open and pass the map on when it changes
+  useEffect(() => {
+    if (!showValueStudy) return;
+    const measure = () => {
+      const source = captureFrameCanvas(trackingMode);
+      if (!source) return;
+      const map = valueMapCanvasRef.current ??= document.createElement('canvas');
+      const report = analyzeValues(map, source, valueSettings.steps, VALUE_MAP_MAX_DIMENSION);
+      if (!report) return;
+      if (valueSettings.lightAngleDeg !== null) drawLightMarker(map, valueSettings.lightAngleDeg);
+      setValueReport(report);
+      setValueMapUrl(map.toDataURL('image/jpeg', JPEG_QUALITY));
+
+      const last = lastValueSentRef.current;
+      const due = !last || last.settings !== valueSettings ||
+        (Date.now() - last.at >= VALUE_STUDY_INTERVAL_MS && valueReportDelta(report, last.report) >= VALUE_CHANGE_THRESHOLD);
+      if (!sessionRef.current || !due) return;
+      const scratch = valueScratchCanvasRef.current ??= document.createElement('canvas');
+      sessionRef.current.sendText(formatValueStudy(report, valueSettings, trackingMode), {
+        images: encodeValueStudy(scratch, source, map, JPEG_QUALITY),
+        turnComplete: false
+      });
+      lastValueSentRef.current = { report, settings: valueSettings, at: Date.now() };
+    };
+    measure();
+    const interval = window.setInterval(measure, VALUE_STUDY_POLL_MS);
+    return () => window.clearInterval(interval);
+  }, [showValueStudy, valueSettings, trackingMode]);
+
+  const closeValueStudy = () => {
+    if (lastValueSentRef.current) sessionRef.current?.sendText(VALUE_STUDY_CLOSED_NOTE, { turnComplete: false });
+    lastValueSentRef.current = null;
+    setShowValueStudy(false);
+    setValueReport(null);
+    setValueMapUrl(null);
+  };
+
+  const toggleTimelapseRecording = () => setTimelapseRecording(recording => !recording);
+
+  const clearTimelapse = () => {
+    timelapseExportedAtRef.current = 0;
+    timelapseRef.current.reset();
+    setTimelapseInfo(timelapseRef.current.info);
+  };
+
+  const loadReference = (file: File) => {
+    loadReferenceImage(file, REFERENCE_IMAGE_MAX_DIMENSION)
+      .then(loaded => {
+        setReference(prev => {
+          if (prev) releaseReferenceImage(prev);
+          return loaded;
+        });
+        if (sessionRecordRef.current) sessionRecordRef.current.reference = { name: loaded.name, image: loaded.data };
+        // The composite just changed shape; don't wait for the change detector
+        frameSchedulerRef.current?.requestImmediate();
+      })
+      .catch(err => console.error('Failed to load reference image:', err));
+  };
+
+  const removeReference = () => {
+    if (reference) releaseReferenceImage(reference);
+    setReference(null);
+    frameSchedulerRef.current?.requestImmediate();
+  };
+
+  useEffect(() => () => {
+    if (referenceRef.current) releaseReferenceImage(referenceRef.current);
+  }, []);
+
+  // A finished (or undone) stroke is worth showing the coach straight away
+  useEffect(() => {
+    frameSchedulerRef.current?.requestImmediate();
+  }, [strokes]);
+
+  const persistSessionRecord = (record: Omit<SavedSession, 'endedAt' | 'finalArtwork'>, artwork: string | null): SavedSession => {
+    const session = { ...record, endedAt: Date.now(), finalArtwork: artwork };
+    saveSession(session).catch(err => console.error('Failed to save session:', err));
+    return session;
+  };
+
+  // Shows the session's report, asking the coach to write it first if there isn't one yet
+  const openReport = (session: SavedSession) => {
+    reportSessionIdRef.current = session.id;
+    setReportSession(session);
+    setReportError(null);
+    if (session.report) return;
+    // The history list can be older than the stored record; a report written since then is reused
+    getSession(session.id)
+      .catch(() => undefined)
+      .then(async stored => {
+        if (stored?.report) return stored;
+        const report = await generateSessionReport(coachProviderRef.current, session, lessons.find(l => l.id === session.lessonId));
+        const withReport = { ...session, report };
+        saveSession(withReport)
+          .then(() => setUpdatedSession(withReport))
+          .catch(err => console.error('Failed to save report:', err));
+        if (report.scores) setProgress(setCoachScores(session.id, report.scores));
+        return withReport;
+      })
+      .then(withReport => {
+        // The report was closed or another one opened meanwhile
+        if (reportSessionIdRef.current === session.id) setReportSession(withReport);
+      })
+      .catch(err => {
+        console.error('Failed to write session report:', err);
+        if (reportSessionIdRef.current === session.id) setReportError('The report could not be written. Check your connection and try again.');
+      });
+  };
+
+  const finishSessionRecord = () => {
+    const record = sessionRecordRef.current;
+    if (!record) return;
+    sessionRecordRef.current = null;
+    const session = persistSessionRecord(record, captureFrame(record.trackingMode) ?? null);
+    const focus = lessons.find(l => l.id === session.lessonId)?.focus ?? currentLesson.focus;
+    const digital = session.trackingMode === 'digital';
+    setProgress(recordProgress({
+      sessionId: session.id,
+      lessonId: session.lessonId,
+      focus,
+      startedAt: session.startedAt,
+      durationMs: session.endedAt - session.startedAt,
+      localScores: digital ? measureLocalScores(focus, strokeReportRef.current, perspectiveReportRef.current) : {}
+    }));
+    // Nothing to write about if the coach never spoke
+    if (session.transcript.some(t => t.type === 'ai')) openReport(session);
+  };
+
+  const stopPlayback = () => {
+    sourcesRef.current.forEach(s => s.stop());
+    sourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+  };
+
+  // Releases everything a session set up locally; the connection itself is the manager's job
+  const teardownSession = () => {
+    updateTranscript(closeOpenTurn);
+    finishSessionRecord();
+    setTimelapseRecording(false);
+    sessionRef.current = null;
     if (frameIntervalRef.current) {
       window.clearInterval(frameIntervalRef.current);
       frameIntervalRef.current = null;
     }
-    sourcesRef.current.forEach(s => s.stop());
-    sourcesRef.current.clear();
-    setIsActive(false);
+    frameSchedulerRef.current = null;
+    setFrameStats(null);
+    captureRef.current?.stop().catch(err => console.error('Failed to release microphone:', err));
+    captureRef.current = null;
+    setIsSpeaking(false);
+    stopPlayback();
+    outputContextRef.current?.close().catch(() => {});
+    outputContextRef.current = null;
+  };
+
+  const stopSession = () => {
+    const connection = connectionRef.current;
+    connectionRef.current = null;
+    connection?.stop();
+    teardownSession();
+  };
+
+  // Runs once per session, on the first successful connection. The frame loop keeps
+  // running through reconnects and simply skips sending while there is no live session.
+  const beginSession = () => {
+    sessionTranscriptStartRef.current = transcriptRef.current.length;
+    sessionRecordRef.current = {
+      id: crypto.randomUUID(),
+      lessonId: currentLesson.id,
+      lessonTitle: currentLesson.title,
+      trackingMode,
+      startedAt: Date.now(),
+      transcript: [],
+      snapshots: [],
+      gestures: [],
+      reference: referenceRef.current ? { name: referenceRef.current.name, image: referenceRef.current.data } : undefined
+    };
+    // A new session starts a new timelapse, unless one is being recorded or hasn't been exported yet
+    const lastFrame = timelapseRef.current.frames[timelapseRef.current.frames.length - 1];
+    if (!timelapseRecordingRef.current && (!lastFrame || lastFrame.timestamp === timelapseExportedAtRef.current)) clearTimelapse();
+    setTimelapseRecording(true);
+    if (!lessonRun || lessonRun.lessonId !== currentLesson.id || lessonRun.completed) {
+      setLessonRun(startLessonRun(currentLesson, drawnCount));
+    }
+
+    const scheduler = createFrameScheduler(FRAME_SCHEDULER_OPTIONS);
+    frameSchedulerRef.current = scheduler;
+    let lastSnapshotAt = Date.now();
+    frameIntervalRef.current = window.setInterval(() => {
+      const source = sessionRef.current ? captureCoachCanvas(trackingMode) : null;
+      const scheduled = source ? scheduler.next(source) : null;
+      if (scheduled) {
+        sessionRef.current?.sendFrame(scheduled.data);
+        setFrameStats(scheduler.stats);
+      }
+
+      const record = sessionRecordRef.current;
+      if (record && Date.now() - lastSnapshotAt >= SNAPSHOT_INTERVAL_MS) {
+        const frame = captureFrame(trackingMode);
+        lastSnapshotAt = Date.now();
+        if (frame) {
+          record.snapshots.push({ timestamp: Date.now(), image: frame });
+          // Checkpoint so a reload mid-session doesn't lose everything
+          persistSessionRecord(record, frame);
+        }
+      }
+
+      // Pen metrics go in as context only; the model answers on its own schedule
+      const report = strokeReportRef.current;
+      const lastSent = lastMetricsSentRef.current;
+      if (
+        sessionRef.current && trackingMode === 'digital' && report && report !== lastSent.report &&
+        Date.now() - lastSent.at >= STROKE_METRICS_INTERVAL_MS
+      ) {
+        sessionRef.current.sendText(formatStrokeReport(report), { turnComplete: false });
+        lastMetricsSentRef.current = { report, at: Date.now() };
+      }
+
+      const perspectiveNote = perspectiveNoteRef.current;
+      const lastPerspective = lastPerspectiveSentRef.current;
+      if (
+        sessionRef.current && trackingMode === 'digital' && perspectiveNote && perspectiveNote !== lastPerspective.note &&
+        Date.now() - lastPerspective.at >= STROKE_METRICS_INTERVAL_MS
+      ) {
+        sessionRef.current.sendText(perspectiveNote, { turnComplete: false });
+        lastPerspectiveSentRef.current = { note: perspectiveNote, at: Date.now() };
+      }
+    }, FRAME_POLL_MS);
   };
 
   const startSession = async () => {
-    setIsConnecting(true);
+    setConnectionError(null);
+    setConnectionStatus('connecting');
+    setAnnotations([]);
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      if (!audioContextRef.current) {
-        audioContextRef.current = {
-          input: new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 }),
-          output: new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 })
-        };
-      }
+      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+      outputContextRef.current = outputCtx;
 
-      const { input: inputCtx, output: outputCtx } = audioContextRef.current;
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      // The mic only sends while a session is live; chunks captured during a reconnect are dropped
+      const capture = await startAudioCapture({
+        onChunk: (chunk) => sessionRef.current?.sendAudio(chunk),
+        onSpeechEnd: () => sessionRef.current?.endAudioStream(),
+        onSpeakingChange: setIsSpeaking
+      });
+      capture.setGate(micGateRef.current);
+      captureRef.current = capture;
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-09-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
+      const learnerProfile = formatLearnerProfile(progress, lessons, completedLessons);
+      const connection = createConnectionManager({
+        provider: coachProviderRef.current,
+        buildConnectOptions: () => ({
           systemInstruction: ART_COACH_SYSTEM_INSTRUCTION + 
+            (trackingMode === 'digital' ? STROKE_METRICS_INSTRUCTION + PERSPECTIVE_INSTRUCTION + LAYERS_INSTRUCTION : '') +
+            ANNOTATION_INSTRUCTION + REFERENCE_INSTRUCTION + VALUE_STUDY_INSTRUCTION +
             `\nMODE: ${trackingMode.toUpperCase()}.` +
-            `\nLESSON: ${currentLesson.title}. GOAL: ${currentLesson.description}` +
-            `\nIMPORTANT: Be extremely talkative. Comment on every new stroke you see. Provide a verbal critique every few seconds if progress is being made.`,
-          speechConfig: {
-            voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-          },
-          inputAudioTranscription: {},
-          outputAudioTranscription: {}
-        },
+            `\n${formatLessonOutline(currentLesson)}` +
+            (learnerProfile ? LEARNER_PROFILE_INSTRUCTION + learnerProfile : '') +
+            formatCoachStyle(coachSettings),
+          voiceName: coachSettings.voice,
+          tools: ANNOTATION_TOOLS
+        }),
         callbacks: {
-          onopen: () => {
-            setIsConnecting(false);
-            setIsActive(true);
-            
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const pcmBlob = createPcmBlob(inputData);
-              sessionRef.current?.sendRealtimeInput({ media: pcmBlob });
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
-
-            frameIntervalRef.current = window.setInterval(() => {
-              const frame = trackingMode === 'digital' 
-                ? canvasRef.current?.getFrame() 
-                : cameraRef.current?.getFrame();
-
-              if (frame) {
-                sessionRef.current?.sendRealtimeInput({
-                  media: { data: frame, mimeType: 'image/jpeg' }
-                });
-              }
-            }, 1000 / FRAME_RATE);
+          onInputTranscription: (text) => addTranscription(text, 'user'),
+          onOutputTranscription: (text) => addTranscription(text, 'ai'),
+          onAudio: async (audioData) => {
+            nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
+            const buffer = await decodeAudioData(decode(audioData), outputCtx, 24000, 1);
+            const source = outputCtx.createBufferSource();
+            source.buffer = buffer;
+            source.connect(outputCtx.destination);
+            source.addEventListener('ended', () => sourcesRef.current.delete(source));
+            source.start(nextStartTimeRef.current);
+            nextStartTimeRef.current += buffer.duration;
+            sourcesRef.current.add(source);
           },
-          onmessage: async (msg) => {
-            if (msg.serverContent?.inputTranscription) {
-              addTranscription(msg.serverContent.inputTranscription.text, 'user');
-            }
-            if (msg.serverContent?.outputTranscription) {
-              addTranscription(msg.serverContent.outputTranscription.text, 'ai');
-            }
-
-            const audioData = msg.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioData) {
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-              const buffer = await decodeAudioData(decode(audioData), outputCtx, 24000, 1);
-              const source = outputCtx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(outputCtx.destination);
-              source.addEventListener('ended', () => sourcesRef.current.delete(source));
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
-            }
-
-            if (msg.serverContent?.interrupted) {
-              sourcesRef.current.forEach(s => s.stop());
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-            }
+          onInterrupted: () => {
+            stopPlayback();
+            updateTranscript(items => markInterrupted(items, coachTurnRef.current));
           },
-          onerror: (e) => {
-            console.error('Session error:', e);
-            stopSession();
+          onTurnComplete: () => {
+            updateTranscript(items => closeOpenTurn(items, 'ai'));
+            coachTurnRef.current++;
           },
-          onclose: () => {
-            stopSession();
+          onToolCall: (calls) => calls.map(call => {
+            const result = applyAnnotationCall(annotationsRef.current, call, coachTurnRef.current);
+            annotationsRef.current = result.annotations;
+            setAnnotations(result.annotations);
+            return result.response;
+          })
+        },
+        onStatusChange: (status, error) => {
+          setConnectionStatus(status);
+          setConnectionError(error);
+          if (status === 'reconnecting') {
+            sessionRef.current = null;
+            stopPlayback();
+          } else if (status === 'failed') {
+            connectionRef.current = null;
+            teardownSession();
           }
+        },
+        onSessionReady: (session, resumed) => {
+          sessionRef.current = session;
+          lastAnnouncedStepRef.current = null;
+          lessonReferencesSentRef.current = null;
+          lastLayerNoteRef.current = null;
+          lastReferenceNoteRef.current = null;
+          lastValueSentRef.current = null;
+          if (resumed) {
+            // The new connection has seen nothing yet
+            frameSchedulerRef.current?.reset();
+            session.sendText(formatResumeSummary(sessionRecordRef.current?.transcript ?? []), { turnComplete: false });
+          } else {
+            beginSession();
+          }
+          // Re-announce the current step so the coach has the lesson context again
+          if (lessonRunRef.current?.lessonId === currentLesson.id) announceStep(currentLesson, lessonRunRef.current);
         }
       });
-
-      sessionRef.current = await sessionPromise;
+      connectionRef.current = connection;
+      connection.start();
     } catch (err) {
       console.error('Failed to start session:', err);
-      setIsConnecting(false);
+      teardownSession();
+      setConnectionStatus('failed');
+      setConnectionError(err instanceof Error ? err.message : 'Could not start the session.');
     }
   };
 
+  const sendTextMessage = (text: string) => {
+    if (!sessionRef.current) return;
+    sessionRef.current.sendText(text);
+    addTypedMessage(text);
+  };
+
   const requestImmediateCritique = () => {
     if (!sessionRef.current) return;
-    // We "nudge" the AI by sending a fresh frame and a silent context check
-    // Since we can't easily send text in the middle of a live stream without complex parts,
-    // the model is already instructed to be proactive. If it isn't talking, 
-    // the user should just say "How am I doing?" out loud.
-    // I will add a UI note to encourage speaking.
+    // The frame travels in the same turn as the request so the critique is about this exact image
+    const frame = captureCoachCanvas(trackingMode)?.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1];
+    sessionRef.current.sendText(CRITIQUE_NOW_PROMPT, { images: frame ? [frame] : [] });
+    addTypedMessage('Critique now, please.');
+  };
+
+  // One image through a standard request: the current canvas or camera frame, or an uploaded file
+  const requestWrittenCritique = async (file?: File) => {
+    const context: CritiqueContext = {
+      lesson: currentLesson,
+      step: lessonRun && lessonRun.lessonId === currentLesson.id ? currentStep(currentLesson, lessonRun) : null,
+      source: file ? 'upload' : trackingMode === 'digital' ? 'canvas' : 'camera',
+      fileName: file?.name,
+      referenceName: !file && reference ? reference.name : undefined,
+      settings: coachSettings
+    };
+    let image: string | undefined;
+    if (file) {
+      const url = URL.createObjectURL(file);
+      image = await loadImageAsJpeg(url, STILL_CRITIQUE_MAX_DIMENSION, STILL_CRITIQUE_JPEG_QUALITY).catch(() => undefined);
+      URL.revokeObjectURL(url);
+    } else {
+      image = captureCoachCanvas(trackingMode)?.toDataURL('image/jpeg', STILL_CRITIQUE_JPEG_QUALITY).split(',')[1];
+    }
+    if (!image) {
+      setCritiqueError(file ? `Could not read ${file.name}. Is it an image?` : trackingMode === 'digital' ? 'The canvas is not ready yet.' : 'Turn on the camera first, or upload a photo instead.');
+      return;
+    }
+
+    setCritiqueError(null);
+    setCritiquePending(true);
+    addTypedMessage(formatCritiqueRequest(context));
+    try {
+      const critique = await requestStillCritique(coachProviderRef.current, image, context);
+      updateTranscript(items => addCritique(items, critique));
+    } catch (err) {
+      console.error('Failed to write critique:', err);
+      setCritiqueError('The critique could not be written. Check your connection and try again.');
+    } finally {
+      setCritiquePending(false);
+    }
   };
 
+  const valuePanel = (
+    <ValueStudyPanel
+      settings={valueSettings}
+      report={valueReport}
+      mapUrl={valueMapUrl}
+      onChange={setValueSettings}
+      onClose={closeValueStudy}
+    />
+  );
+
   return (
     <div className="flex flex-col lg:flex-row h-screen w-full bg-slate-950 text-slate-200 overflow-hidden p-4 gap-4">
       {/* Sidebar: Lessons & Controls */}
@@ -166,30 +839,96 @@ const App: React.FC = () => {
               <h1 className="text-xl font-bold tracking-tight uppercase">AI Coach</h1>
               <p className="text-xs text-slate-400">Proactive Mentoring</p>
             </div>
+            <button
+              onClick={() => setShowCoachSettings(true)}
+              className="ml-auto p-2 rounded-lg text-slate-500 hover:text-slate-200 hover:bg-slate-800 transition-all"
+              title="Coach settings"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+              </svg>
+            </button>
           </div>
 
           <div className="space-y-3">
-            <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Lesson Library</h2>
-            {LESSONS.map(lesson => (
-              <button
-                key={lesson.id}
-                onClick={() => setCurrentLesson(lesson)}
-                className={`w-full text-left p-3 rounded-xl transition-all border ${
-                  currentLesson.id === lesson.id 
-                    ? 'bg-indigo-500/10 border-indigo-500/50 text-indigo-100' 
-                    : 'bg-slate-800/50 border-transparent hover:bg-slate-800 text-slate-400'
-                }`}
-              >
-                <h3 className="text-sm font-medium">{lesson.title}</h3>
-                <p className="text-[10px] opacity-70 mt-1 line-clamp-1">{lesson.description}</p>
-              </button>
-            ))}
+            <div className="flex items-center justify-between">
+              <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-wider">Lesson Library</h2>
+              <div className="flex items-center gap-1 text-[10px] font-semibold">
+                <button onClick={() => openLessonEditor(createBlankLesson())} className="px-2 py-1 rounded-md text-indigo-400 hover:bg-slate-800">
+                  + New
+                </button>
+                <label className="px-2 py-1 rounded-md text-slate-500 hover:text-slate-300 hover:bg-slate-800 cursor-pointer">
+                  Import
+                  <input
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={e => {
+                      const file = e.target.files?.[0];
+                      if (file) importLessonPack(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+                {customLessons.length > 0 && (
+                  <button onClick={() => exportLessons(customLessons)} className="px-2 py-1 rounded-md text-slate-500 hover:text-slate-300 hover:bg-slate-800" title="Export your lessons as a lesson pack">
+                    Export
+                  </button>
+                )}
+              </div>
+            </div>
+            {libraryMessage && (
+              <p className={`text-[10px] leading-tight flex gap-2 ${libraryMessage.error ? 'text-amber-300' : 'text-green-400'}`}>
+                <span className="flex-1">{libraryMessage.text}</span>
+                <button onClick={() => setLibraryMessage(null)} className="text-slate-500 hover:text-white">×</button>
+              </p>
+            )}
+            <div className="space-y-3 max-h-96 overflow-y-auto custom-scrollbar">
+              {lessons.map(lesson => {
+                const missing = missingPrerequisites(lesson, lessons, completedLessons);
+                return (
+                  <div key={lesson.id} className="relative group">
+                    <button
+                      onClick={() => selectLesson(lesson)}
+                      disabled={missing.length > 0}
+                      className={`w-full text-left p-3 rounded-xl transition-all border disabled:opacity-50 disabled:cursor-not-allowed ${
+                        currentLesson.id === lesson.id 
+                          ? 'bg-indigo-500/10 border-indigo-500/50 text-indigo-100' 
+                          : 'bg-slate-800/50 border-transparent hover:bg-slate-800 text-slate-400'
+                      }`}
+                    >
+                      <h3 className="text-sm font-medium flex items-center justify-between gap-2">
+                        {lesson.title}
+                        <span className="flex items-center gap-2">
+                          {suggestedLesson?.lesson.id === lesson.id && (
+                            <span className="text-[9px] font-bold uppercase tracking-widest text-indigo-400" title={suggestedLesson.reason}>Up next</span>
+                          )}
+                          {completedLessons.includes(lesson.id) && <span className="text-[10px] text-green-400">✓</span>}
+                        </span>
+                      </h3>
+                      <p className="text-[10px] opacity-70 mt-1 line-clamp-1">
+                        {missing.length > 0 ? `Complete first: ${missing.map(l => l.title).join(', ')}` : lesson.description}
+                      </p>
+                    </button>
+                    {lesson.custom && (
+                      <button
+                        onClick={() => openLessonEditor(lesson)}
+                        className="absolute bottom-2 right-2 px-1.5 py-0.5 rounded text-[9px] font-bold uppercase tracking-wider text-slate-500 bg-slate-900/80 hover:text-slate-200 opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        Edit
+                      </button>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
           </div>
 
           <div className="mt-8 space-y-3">
             <button
-              onClick={isActive ? stopSession : startSession}
-              disabled={isConnecting}
+              onClick={isActive || isConnecting ? stopSession : startSession}
+              disabled={isConnecting && !connectionError}
               className={`w-full py-4 rounded-xl font-bold transition-all flex items-center justify-center gap-2 ${
                 isActive 
                   ? 'bg-red-500/20 text-red-400 border border-red-500/30 hover:bg-red-500/30 shadow-lg shadow-red-500/10' 
@@ -197,22 +936,78 @@ const App: React.FC = () => {
               }`}
             >
               {isConnecting ? (
-                <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                <>
+                  <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+                  {connectionError && <span className="text-xs">Retrying… (click to cancel)</span>}
+                </>
               ) : isActive ? (
                 <>Stop Session</>
               ) : (
                 <>Start Coaching</>
               )}
             </button>
+
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowHistory(true)}
+                className="flex-1 py-2 rounded-xl text-xs font-medium bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-all"
+              >
+                History
+              </button>
+              <button
+                onClick={() => setShowProgress(true)}
+                className="flex-1 py-2 rounded-xl text-xs font-medium bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-all"
+              >
+                Progress
+              </button>
+              <button
+                onClick={() => setShowTimelapse(true)}
+                className="flex-1 py-2 rounded-xl text-xs font-medium bg-slate-800/50 text-slate-400 hover:bg-slate-800 hover:text-slate-200 transition-all flex items-center justify-center gap-1.5"
+              >
+                {timelapseRecording && <span className="w-1.5 h-1.5 bg-red-500 rounded-full animate-pulse" />}
+                Timelapse
+              </button>
+            </div>
             
+            {connectionStatus === 'reconnecting' && (
+              <div className="p-3 bg-amber-500/10 rounded-xl border border-amber-500/30">
+                <p className="text-[10px] text-amber-300 font-medium flex items-center gap-2">
+                  <span className="w-1.5 h-1.5 bg-amber-400 rounded-full animate-ping" />
+                  Connection lost. Reconnecting…
+                </p>
+                <p className="text-[10px] text-slate-500 leading-tight mt-1">
+                  Keep drawing. Your transcript and lesson progress are kept, and the coach will pick up where it left off.
+                </p>
+              </div>
+            )}
+
+            {connectionStatus === 'failed' && (
+              <div className="p-3 bg-red-500/10 rounded-xl border border-red-500/30">
+                <p className="text-[10px] text-red-300 font-medium">Couldn't reach the coach.</p>
+                {connectionError && (
+                  <p className="text-[10px] text-slate-500 leading-tight mt-1">{connectionError}</p>
+                )}
+              </div>
+            )}
+
             {isActive && (
+              <MicControl
+                mode={micMode}
+                speaking={isSpeaking}
+                pushing={isPushingToTalk}
+                onModeChange={setMicMode}
+                onPushChange={setIsPushingToTalk}
+              />
+            )}
+
+            {connectionStatus === 'live' && (
               <div className="p-3 bg-slate-800/50 rounded-xl border border-slate-700">
                 <p className="text-[10px] text-indigo-300 font-medium mb-2 flex items-center gap-2">
                   <span className="w-1.5 h-1.5 bg-indigo-400 rounded-full animate-ping" />
                   Coach is Listening & Watching
                 </p>
                 <p className="text-[10px] text-slate-500 leading-tight">
-                  "Talk to your coach! Ask: 'How is my perspective?' or 'Are my shapes correct?'"
+                  "Talk or type to your coach! Ask: 'How is my perspective?' or 'Are my shapes correct?'"
                 </p>
               </div>
             )}
@@ -223,30 +1018,26 @@ const App: React.FC = () => {
         <div className="flex-1 bg-slate-900/50 rounded-2xl border border-slate-800 overflow-hidden flex flex-col shadow-inner">
           <div className="p-4 border-b border-slate-800 bg-slate-900/50 flex justify-between items-center">
             <span className="text-xs font-semibold text-slate-400 uppercase tracking-widest">Feedback Log</span>
-            <div className={`w-2 h-2 rounded-full ${isActive ? 'bg-green-500 animate-pulse' : 'bg-slate-700'}`} />
-          </div>
-          <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar bg-slate-950/20">
-            {transcriptions.length === 0 ? (
-              <div className="h-full flex flex-col items-center justify-center text-slate-600 text-center p-4">
-                <svg className="w-8 h-8 mb-3 opacity-20" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
-                </svg>
-                <p className="text-xs">Start session and talk to the coach for real-time art critique.</p>
-              </div>
-            ) : (
-              transcriptions.map((t, i) => (
-                <div key={i} className={`flex flex-col ${t.type === 'user' ? 'items-end' : 'items-start'}`}>
-                  <div className={`max-w-[90%] rounded-2xl px-4 py-3 text-xs leading-relaxed shadow-sm ${
-                    t.type === 'user' 
-                      ? 'bg-slate-800 text-slate-300 rounded-tr-none border border-slate-700' 
-                      : 'bg-indigo-900/40 text-indigo-100 rounded-tl-none border border-indigo-500/20'
-                  }`}>
-                    {t.text}
-                  </div>
-                </div>
-              ))
-            )}
+            <div className={`w-2 h-2 rounded-full ${
+              connectionStatus === 'live' ? 'bg-green-500 animate-pulse'
+                : connectionStatus === 'reconnecting' ? 'bg-amber-400 animate-pulse'
+                : connectionStatus === 'failed' ? 'bg-red-500' : 'bg-slate-700'
+            }`} />
           </div>
+          <TranscriptLog
+            items={transcriptions}
+            markupTurns={new Set(annotations.map(a => a.turn))}
+            onShowMarkup={turn => setAnnotations(prev => reshowTurn(prev, turn))}
+            onTogglePinned={id => updateTranscript(items => togglePinned(items, id))}
+          />
+          <CoachInput
+            disabled={connectionStatus !== 'live'}
+            onSend={sendTextMessage}
+            onCritique={requestImmediateCritique}
+            onWrittenCritique={requestWrittenCritique}
+            critiquePending={critiquePending}
+            critiqueError={critiqueError}
+          />
         </div>
       </aside>
 
@@ -265,7 +1056,34 @@ const App: React.FC = () => {
             </div>
           </div>
           
-          <div className="flex p-1 bg-slate-950 rounded-xl border border-slate-800 self-start sm:self-center">
+          <div className="flex items-center gap-3 self-start sm:self-center">
+          <ReferenceControls
+            reference={reference}
+            settings={referenceSettings}
+            showViews={trackingMode === 'digital'}
+            onLoad={loadReference}
+            onRemove={removeReference}
+            onChange={setReferenceSettings}
+          />
+          <button
+            onClick={() => showValueStudy ? closeValueStudy() : setShowValueStudy(true)}
+            className={`px-4 py-2 rounded-xl text-xs font-bold border transition-all ${
+              showValueStudy ? 'bg-indigo-600 text-white border-indigo-500' : 'text-slate-400 border-slate-800 hover:text-slate-200'
+            }`}
+          >
+            Value Study
+          </button>
+          {trackingMode === 'digital' && (
+            <button
+              onClick={() => setShowGesture(v => !v)}
+              className={`px-4 py-2 rounded-xl text-xs font-bold border transition-all ${
+                showGesture ? 'bg-indigo-600 text-white border-indigo-500' : 'text-slate-400 border-slate-800 hover:text-slate-200'
+              }`}
+            >
+              Gesture Practice
+            </button>
+          )}
+          <div className="flex p-1 bg-slate-950 rounded-xl border border-slate-800">
             <button
               onClick={() => { if (isActive) stopSession(); setTrackingMode('digital'); }}
               className={`px-5 py-2 rounded-lg text-xs font-bold transition-all ${
@@ -283,14 +1101,59 @@ const App: React.FC = () => {
               Physical Sketchbook
             </button>
           </div>
+          </div>
         </header>
 
-        <section className="flex-1 relative min-h-0">
+        <LessonRunner
+          lesson={currentLesson}
+          run={lessonRun}
+          now={now}
+          drawnCount={drawnCount}
+          trackingMode={trackingMode}
+          onBegin={beginLesson}
+          onNext={() => lessonRun && setLessonRun(advanceLessonRun(currentLesson, lessonRun, drawnCount))}
+          onPrev={() => lessonRun && setLessonRun(goToStep(currentLesson, lessonRun, lessonRun.stepIndex - 1, drawnCount))}
+          onUseReference={applyLessonReference}
+        />
+
+        <section className="flex-1 relative min-h-0 flex gap-4">
+          {trackingMode === 'digital' && showGesture && (
+            <GesturePanel
+              references={gestureReferences}
+              run={gestureRun}
+              durationSec={gestureDuration}
+              attempts={gestureAttempts}
+              now={now}
+              onLoadFiles={loadGestureReferences}
+              onDurationChange={setGestureDuration}
+              onStart={startGesturePractice}
+              onPauseToggle={() => gestureRun && setGestureRun(gestureRun.pausedAt !== null ? resumeGestureRun(gestureRun) : pauseGestureRun(gestureRun))}
+              onNext={() => gestureRun && completePose(gestureRun, true)}
+              onSkip={() => gestureRun && completePose(gestureRun, false)}
+              onStop={() => setGestureRun(null)}
+              onClose={() => { setGestureRun(null); setShowGesture(false); }}
+            />
+          )}
+          <div className="flex-1 relative min-h-0">
           {trackingMode === 'digital' ? (
-            <DrawingCanvas ref={canvasRef} />
+            <>
+              <DrawingCanvas ref={canvasRef} onStrokeEnd={handleStrokeEnd} onStrokesChange={setStrokes} onLayersChange={handleLayersChange} />
+              {reference && <ReferenceOverlay reference={reference} settings={referenceSettings} />}
+              <GuideOverlay guides={guides} onChange={setGuides} />
+              <AnnotationOverlay annotations={annotations} />
+              <div className="absolute top-4 right-4 z-10 space-y-2">
+                <StrokeQualityPanel report={strokeReport} />
+                <PerspectiveCheckPanel report={perspectiveReport} />
+                {showValueStudy && valuePanel}
+              </div>
+            </>
           ) : (
-            <CameraTracker ref={cameraRef} />
+            <>
+              <CameraTracker ref={cameraRef} annotations={annotations} />
+              {showValueStudy && <div className="absolute top-16 right-4 z-10">{valuePanel}</div>}
+            </>
           )}
+          </div>
           
           {/* AI Status Indicator */}
           {isActive && (
@@ -311,9 +1174,11 @@ const App: React.FC = () => {
                 </div>
                 <div className="flex flex-col">
                   <span className="text-[12px] font-black text-white uppercase tracking-[0.2em]">
-                    Coach is Guiding
+                    {connectionStatus === 'reconnecting' ? 'Reconnecting' : 'Coach is Guiding'}
+                  </span>
+                  <span className="text-[9px] text-slate-500 font-medium">
+                    {connectionStatus === 'reconnecting' ? 'Restoring the live connection...' : 'Analyzing technique in real-time...'}
                   </span>
-                  <span className="text-[9px] text-slate-500 font-medium">Analyzing technique in real-time...</span>
                 </div>
               </div>
             </div>
@@ -338,9 +1203,68 @@ const App: React.FC = () => {
                <span className="w-3 h-3 border border-slate-700 rounded-sm flex items-center justify-center text-[8px]">L</span>
               LATENCY: OPTIMIZED
             </span>
+            {frameStats && (
+              <span className="flex items-center gap-1.5" title="Unchanged frames are not sent to the coach">
+                <span className="w-3 h-3 border border-slate-700 rounded-sm flex items-center justify-center text-[8px]">F</span>
+                FRAMES: {frameStats.sent} SENT / {frameStats.skipped} SKIPPED
+              </span>
+            )}
           </div>
         </footer>
       </main>
+
+      {showHistory && <SessionHistory updated={updatedSession} onClose={() => setShowHistory(false)} onOpenReport={openReport} />}
+      {showTimelapse && (
+        <TimelapsePanel
+          recording={timelapseRecording}
+          info={timelapseInfo}
+          frames={timelapseRef.current.frames}
+          captions={timelapseRef.current.captions}
+          onToggleRecording={toggleTimelapseRecording}
+          onClear={clearTimelapse}
+          onExported={lastFrameAt => { timelapseExportedAtRef.current = lastFrameAt; }}
+          onClose={() => setShowTimelapse(false)}
+        />
+      )}
+      {editingLesson && (
+        <LessonEditor
+          lesson={editingLesson}
+          saved={customLessons.some(l => l.id === editingLesson.id)}
+          error={lessonSaveError}
+          onSave={saveLesson}
+          onExport={lesson => exportLessons([lesson])}
+          onDelete={deleteLesson}
+          onClose={() => setEditingLesson(null)}
+        />
+      )}
+      {showCoachSettings && (
+        <CoachSettingsPanel
+          settings={coachSettings}
+          sessionActive={isActive}
+          onChange={settings => setCoachSettings(saveCoachSettings(settings))}
+          onClose={() => setShowCoachSettings(false)}
+        />
+      )}
+      {showProgress && (
+        <ProgressDashboard
+          entries={progress}
+          lessons={lessons}
+          completedLessons={completedLessons}
+          onSelectLesson={(lesson) => {
+            selectLesson(lesson);
+            setShowProgress(false);
+          }}
+          onClose={() => setShowProgress(false)}
+        />
+      )}
+      {reportSession && (
+        <SessionReportView
+          session={reportSession}
+          error={reportError}
+          onRetry={() => openReport(reportSession)}
+          onClose={() => { reportSessionIdRef.current = null; setReportSession(null); }}
+        />
+      )}
     </div>
   );
 };
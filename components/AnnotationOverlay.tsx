@@ -0,0 +1,177 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Annotation, AnnotationShape, Point } from '../types';
+import { ANNOTATION_SPACE, annotationOpacity, isAnnotationVisible } from '../services/annotations';
+
+const COLORS: Record<AnnotationShape['kind'], string> = {
+  'circle': '#f59e0b',
+  'arrow': '#f59e0b',
+  'correction': '#22c55e',
+  'vanishing-point': '#38bdf8',
+  'horizon': '#38bdf8',
+  'label': '#f8fafc'
+};
+
+interface AnnotationShapesProps {
+  annotations: Annotation[];
+  // Maps annotation space (0..ANNOTATION_SPACE) into the coordinates of the surrounding SVG.
+  project: (p: Point) => Point;
+  // Base stroke width in SVG units.
+  unit: number;
+  // Set when the surrounding SVG is flipped, so text still reads left to right.
+  mirrored?: boolean;
+}
+
+const Caption: React.FC<{ at: Point; text: string; unit: number; mirrored?: boolean; color: string }> = ({ at, text, unit, mirrored, color }) => (
+  <g transform={`translate(${at.x} ${at.y}) scale(${mirrored ? -1 : 1} 1)`}>
+    <text
+      fontSize={unit * 7}
+      fontWeight={700}
+      fill={color}
+      stroke="#0f172a"
+      strokeWidth={unit * 1.5}
+      paintOrder="stroke"
+      style={{ fontFamily: 'Inter, sans-serif' }}
+    >
+      {text}
+    </text>
+  </g>
+);
+
+function arrowHead(from: Point, to: Point, size: number): string {
+  const angle = Math.atan2(to.y - from.y, to.x - from.x);
+  const left = { x: to.x - size * Math.cos(angle - Math.PI / 7), y: to.y - size * Math.sin(angle - Math.PI / 7) };
+  const right = { x: to.x - size * Math.cos(angle + Math.PI / 7), y: to.y - size * Math.sin(angle + Math.PI / 7) };
+  return `${to.x},${to.y} ${left.x},${left.y} ${right.x},${right.y}`;
+}
+
+// Draws annotations inside an existing SVG; refreshes itself while any are fading.
+export const AnnotationShapes: React.FC<AnnotationShapesProps> = ({ annotations, project, unit, mirrored }) => {
+  const [now, setNow] = useState(Date.now());
+  const visible = annotations.filter(a => isAnnotationVisible(a, now));
+  // Expired annotations are kept for "Show markup"; only ones still on screen need the ticking clock
+  const hasTimed = visible.some(a => a.ttlMs > 0);
+
+  useEffect(() => {
+    if (!hasTimed) return;
+    const interval = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(interval);
+  }, [hasTimed]);
+
+  // A newly drawn or re-shown annotation must not wait for the next tick
+  useEffect(() => setNow(Date.now()), [annotations]);
+
+  return (
+    <g style={{ pointerEvents: 'none' }}>
+      {visible.map(annotation => {
+        const { shape, label } = annotation;
+        const color = COLORS[shape.kind];
+        let body: React.ReactNode = null;
+        let captionAt: Point | null = null;
+
+        switch (shape.kind) {
+          case 'circle': {
+            const center = project(shape.center);
+            const edge = project({ x: shape.center.x + shape.radius, y: shape.center.y });
+            const r = Math.hypot(edge.x - center.x, edge.y - center.y);
+            body = <circle cx={center.x} cy={center.y} r={r} fill="none" stroke={color} strokeWidth={unit * 1.5} />;
+            captionAt = { x: center.x + r * 0.75, y: center.y - r * 0.75 };
+            break;
+          }
+          case 'arrow':
+          case 'correction': {
+            const from = project(shape.from);
+            const to = project(shape.to);
+            body = (
+              <>
+                <line
+                  x1={from.x} y1={from.y} x2={to.x} y2={to.y}
+                  stroke={color}
+                  strokeWidth={unit * 1.5}
+                  strokeLinecap="round"
+                  strokeDasharray={shape.kind === 'correction' ? `${unit * 4} ${unit * 2}` : undefined}
+                />
+                {shape.kind === 'arrow'
+                  ? <polygon points={arrowHead(from, to, unit * 6)} fill={color} />
+                  : [from, to].map((p, i) => <circle key={i} cx={p.x} cy={p.y} r={unit * 2} fill={color} />)}
+              </>
+            );
+            captionAt = { x: (from.x + to.x) / 2 + unit * 3, y: (from.y + to.y) / 2 - unit * 3 };
+            break;
+          }
+          case 'vanishing-point': {
+            const at = project(shape.at);
+            const arm = unit * 6;
+            body = (
+              <>
+                <circle cx={at.x} cy={at.y} r={arm} fill="none" stroke={color} strokeWidth={unit} />
+                <line x1={at.x - arm * 1.6} y1={at.y} x2={at.x + arm * 1.6} y2={at.y} stroke={color} strokeWidth={unit} />
+                <line x1={at.x} y1={at.y - arm * 1.6} x2={at.x} y2={at.y + arm * 1.6} stroke={color} strokeWidth={unit} />
+              </>
+            );
+            captionAt = { x: at.x + arm * 1.8, y: at.y - arm };
+            break;
+          }
+          case 'horizon': {
+            const start = project({ x: 0, y: shape.y });
+            const end = project({ x: ANNOTATION_SPACE, y: shape.y });
+            body = (
+              <line
+                x1={start.x} y1={start.y} x2={end.x} y2={end.y}
+                stroke={color}
+                strokeWidth={unit}
+                strokeDasharray={`${unit * 6} ${unit * 3}`}
+              />
+            );
+            captionAt = { x: start.x + unit * 4, y: start.y - unit * 3 };
+            break;
+          }
+          case 'label':
+            body = <Caption at={project(shape.at)} text={shape.text} unit={unit} mirrored={mirrored} color={color} />;
+            break;
+        }
+
+        return (
+          <g key={annotation.id} opacity={annotationOpacity(annotation, now)} style={{ transition: 'opacity 250ms linear' }}>
+            {body}
+            {label && captionAt && <Caption at={captionAt} text={label} unit={unit} mirrored={mirrored} color={color} />}
+          </g>
+        );
+      })}
+    </g>
+  );
+};
+
+interface AnnotationOverlayProps {
+  annotations: Annotation[];
+}
+
+// Full-size overlay for a surface whose frame fills it exactly, like the digital canvas.
+const AnnotationOverlay: React.FC<AnnotationOverlayProps> = ({ annotations }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
+
+  const project = (p: Point): Point => ({
+    x: (p.x / ANNOTATION_SPACE) * size.width,
+    y: (p.y / ANNOTATION_SPACE) * size.height
+  });
+
+  return (
+    <svg ref={svgRef} className="absolute inset-0 w-full h-full pointer-events-none z-[5]">
+      {size.width > 0 && (
+        <AnnotationShapes annotations={annotations} project={project} unit={Math.max(size.width, size.height) / 400} />
+      )}
+    </svg>
+  );
+};
+
+export default AnnotationOverlay;
@@ -0,0 +1,124 @@
+import React, { useRef, useState } from 'react';
+import { PNG_EXPORT_SCALES } from '../constants';
+import { CANVAS_BACKGROUND } from '../services/strokeRenderer';
+import { ARTWORK_EXTENSION, ExportOptions } from '../services/artwork';
+
+interface ArtworkMenuProps {
+  // Nothing to save or export yet.
+  empty: boolean;
+  onSave: () => void;
+  onOpen: (file: File) => void;
+  onImportImage: (file: File) => void;
+  onExportPng: (options: ExportOptions) => void;
+  onExportSvg: (background: string | null) => void;
+}
+
+type BackgroundChoice = 'transparent' | 'canvas' | 'white' | 'custom';
+
+const BACKGROUNDS: { id: BackgroundChoice; label: string }[] = [
+  { id: 'transparent', label: 'None' },
+  { id: 'canvas', label: 'Canvas' },
+  { id: 'white', label: 'White' },
+  { id: 'custom', label: 'Color' }
+];
+
+const itemClass = 'w-full text-left px-3 py-1.5 rounded text-xs text-slate-300 hover:bg-slate-800 disabled:opacity-40 disabled:hover:bg-transparent transition-colors';
+const segmentClass = (active: boolean) => `flex-1 py-0.5 rounded text-[10px] font-bold transition-colors ${
+  active ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+}`;
+
+const ArtworkMenu: React.FC<ArtworkMenuProps> = ({ empty, onSave, onOpen, onImportImage, onExportPng, onExportSvg }) => {
+  const [open, setOpen] = useState(false);
+  const [backgroundChoice, setBackgroundChoice] = useState<BackgroundChoice>('transparent');
+  const [customColor, setCustomColor] = useState('#f5f0e6');
+  const [scale, setScale] = useState(2);
+  const openInputRef = useRef<HTMLInputElement>(null);
+  const imageInputRef = useRef<HTMLInputElement>(null);
+
+  const background = {
+    transparent: null,
+    canvas: CANVAS_BACKGROUND,
+    white: '#ffffff',
+    custom: customColor
+  }[backgroundChoice];
+
+  const run = (action: () => void) => {
+    setOpen(false);
+    action();
+  };
+
+  const pickFile = (e: React.ChangeEvent<HTMLInputElement>, handler: (file: File) => void) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) run(() => handler(file));
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className={`px-3 py-1 rounded text-xs font-medium transition-colors ${open ? 'bg-indigo-600 text-white' : 'bg-slate-700 hover:bg-slate-600'}`}
+      >
+        File
+      </button>
+      <input ref={openInputRef} type="file" accept={`${ARTWORK_EXTENSION},.json,application/json`} className="hidden" onChange={e => pickFile(e, onOpen)} />
+      <input ref={imageInputRef} type="file" accept="image/*" className="hidden" onChange={e => pickFile(e, onImportImage)} />
+
+      {open && (
+        <div className="absolute left-0 top-full mt-3 w-56 bg-slate-900 p-2 rounded-lg border border-slate-700 shadow-2xl space-y-1">
+          <button onClick={() => run(onSave)} disabled={empty} className={itemClass}>Save Artwork</button>
+          <button onClick={() => openInputRef.current?.click()} className={itemClass}>Open Artwork…</button>
+          <button onClick={() => imageInputRef.current?.click()} className={itemClass} title="Add a picture on its own layer to trace over or get a critique on">
+            Import Image…
+          </button>
+
+          <div className="border-t border-slate-800 pt-2 mt-1 px-1 space-y-2">
+            <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest">Export</p>
+            <div className="flex items-center gap-1">
+              <div className="flex flex-1 p-0.5 bg-slate-950 rounded-md border border-slate-800">
+                {BACKGROUNDS.map(b => (
+                  <button key={b.id} onClick={() => setBackgroundChoice(b.id)} className={segmentClass(backgroundChoice === b.id)}>
+                    {b.label}
+                  </button>
+                ))}
+              </div>
+              {backgroundChoice === 'custom' && (
+                <input
+                  type="color"
+                  value={customColor}
+                  onChange={e => setCustomColor(e.target.value)}
+                  className="w-6 h-6 rounded cursor-pointer bg-transparent border-none"
+                />
+              )}
+            </div>
+            <div className="flex p-0.5 bg-slate-950 rounded-md border border-slate-800">
+              {PNG_EXPORT_SCALES.map(s => (
+                <button key={s} onClick={() => setScale(s)} className={segmentClass(scale === s)} title={`PNG at ${s}× the canvas size`}>
+                  {s}×
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-1">
+              <button
+                onClick={() => run(() => onExportPng({ background, scale }))}
+                disabled={empty}
+                className="flex-1 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded text-xs font-medium transition-colors"
+              >
+                PNG
+              </button>
+              <button
+                onClick={() => run(() => onExportSvg(background))}
+                disabled={empty}
+                className="flex-1 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded text-xs font-medium transition-colors"
+              >
+                SVG
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ArtworkMenu;
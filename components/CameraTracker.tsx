@@ -1,19 +1,66 @@
-
-import React, { useRef, useEffect, useImperativeHandle, forwardRef } from 'react';
+import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
+import { Annotation, Point, Quad } from '../types';
+import {
+  DETECTION_WIDTH, detectPaperQuad, smoothQuad, rectifiedSize, warpQuad, enhancePencil,
+  computeHomography, applyHomography
+} from '../services/paperDetection';
+import { ANNOTATION_SPACE } from '../services/annotations';
+import { AnnotationShapes } from './AnnotationOverlay';
 
 export interface CameraTrackerRef {
   getFrame: () => string | null;
+  getFrameCanvas: () => HTMLCanvasElement | null;
+}
+
+const DETECTION_INTERVAL_MS = 400;
+// Detections the page may be missed for (about two seconds) before its outline is dropped.
+const MISSED_DETECTIONS_BEFORE_LOST = 5;
+const RECTIFIED_MAX_DIMENSION = 1024;
+// Flattening runs in JavaScript on the main thread; callers polling faster than this share one result.
+const RECTIFIED_REUSE_MS = 1000;
+// Detection jitter smaller than this (in video px) doesn't call for a fresh flatten.
+const RECTIFIED_QUAD_TOLERANCE_PX = 4;
+
+const defaultQuad = (width: number, height: number): Quad => {
+  const mx = width * 0.15;
+  const my = height * 0.1;
+  return [
+    { x: mx, y: my },
+    { x: width - mx, y: my },
+    { x: width - mx, y: height - my },
+    { x: mx, y: height - my }
+  ];
+};
+
+interface CameraTrackerProps {
+  annotations?: Annotation[];
 }
 
-const CameraTracker = forwardRef<CameraTrackerRef>((_, ref) => {
+const CameraTracker = forwardRef<CameraTrackerRef, CameraTrackerProps>(({ annotations = [] }, ref) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const rectifiedCanvasRef = useRef<HTMLCanvasElement>(null);
+  const overlayRef = useRef<SVGSVGElement>(null);
+  const detectionCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const dragCornerRef = useRef<number | null>(null);
+  const missedDetectionsRef = useRef(0);
+  // Page and time of the last flattened frame in rectifiedCanvasRef
+  const rectifiedRef = useRef<{ quad: Quad; at: number } | null>(null);
+  const [videoSize, setVideoSize] = useState({ width: 0, height: 0 });
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [autoDetect, setAutoDetect] = useState(true);
+  const [rectify, setRectify] = useState(true);
+
+  const quadRef = useRef(quad);
+  quadRef.current = quad;
+  const rectifyRef = useRef(rectify);
+  rectifyRef.current = rectify;
 
   useEffect(() => {
     async function setupCamera() {
       try {
-        const stream = await navigator.mediaDevices.getUserMedia({ 
-          video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } } 
+        const stream = await navigator.mediaDevices.getUserMedia({
+          video: { facingMode: 'user', width: { ideal: 1280 }, height: { ideal: 720 } }
         });
         if (videoRef.current) {
           videoRef.current.srcObject = stream;
@@ -30,45 +77,224 @@ const CameraTracker = forwardRef<CameraTrackerRef>((_, ref) => {
     };
   }, []);
 
-  useImperativeHandle(ref, () => ({
-    getFrame: () => {
-      if (!videoRef.current || !canvasRef.current) return null;
+  // Look for the page a few times a second until the corners are locked
+  useEffect(() => {
+    if (!autoDetect) return;
+    const interval = window.setInterval(() => {
       const video = videoRef.current;
-      const canvas = canvasRef.current;
-      
-      // Sync canvas size to video
-      if (canvas.width !== video.videoWidth) {
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-      }
+      if (!video || !video.videoWidth) return;
+      if (!detectionCanvasRef.current) detectionCanvasRef.current = document.createElement('canvas');
+      const small = detectionCanvasRef.current;
+      const scale = video.videoWidth / DETECTION_WIDTH;
+      small.width = DETECTION_WIDTH;
+      small.height = Math.round(video.videoHeight / scale);
+      const ctx = small.getContext('2d', { willReadFrequently: true });
+      if (!ctx) return;
+      ctx.drawImage(video, 0, 0, small.width, small.height);
+      const detected = detectPaperQuad(ctx.getImageData(0, 0, small.width, small.height), scale);
+      // A hand or a shadow can hide the page for a moment; keep the outline through a few misses
+      missedDetectionsRef.current = detected ? 0 : missedDetectionsRef.current + 1;
+      if (detected) setQuad(prev => smoothQuad(prev, detected));
+      else if (missedDetectionsRef.current >= MISSED_DETECTIONS_BEFORE_LOST) setQuad(null);
+    }, DETECTION_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [autoDetect]);
 
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
-        return canvas.toDataURL('image/jpeg', 0.5).split(',')[1];
-      }
-      return null;
+  const getRawFrameCanvas = (): HTMLCanvasElement | null => {
+    if (!videoRef.current || !canvasRef.current) return null;
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video.videoWidth) return null;
+
+    // Sync canvas size to video
+    if (canvas.width !== video.videoWidth) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
     }
+
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    return canvas;
+  };
+
+  // The page flattened to a front-on rectangle with pencil lines boosted, when a page is known
+  const getFrameCanvas = (): HTMLCanvasElement | null => {
+    const page = quadRef.current;
+    const output = rectifiedCanvasRef.current;
+    const last = rectifiedRef.current;
+    if (
+      page && rectifyRef.current && output && last && Date.now() - last.at < RECTIFIED_REUSE_MS &&
+      page.every((p, i) => Math.hypot(p.x - last.quad[i].x, p.y - last.quad[i].y) < RECTIFIED_QUAD_TOLERANCE_PX)
+    ) {
+      return output;
+    }
+    const raw = getRawFrameCanvas();
+    if (!raw || !page || !rectifyRef.current || !output) return raw;
+
+    const rawCtx = raw.getContext('2d', { willReadFrequently: true });
+    const outCtx = output.getContext('2d');
+    if (!rawCtx || !outCtx) return raw;
+    const { width, height } = rectifiedSize(page, RECTIFIED_MAX_DIMENSION);
+    output.width = width;
+    output.height = height;
+    const flattened = warpQuad(rawCtx.getImageData(0, 0, raw.width, raw.height), page, width, height);
+    outCtx.putImageData(enhancePencil(flattened), 0, 0);
+    rectifiedRef.current = { quad: page, at: Date.now() };
+    return output;
+  };
+
+  useImperativeHandle(ref, () => ({
+    getFrame: () => {
+      const canvas = getFrameCanvas();
+      return canvas ? canvas.toDataURL('image/jpeg', 0.5).split(',')[1] : null;
+    },
+    getFrameCanvas
   }));
 
+  // Maps a pointer position to video pixels, undoing the letterboxing and the mirror
+  const toVideoPoint = (e: React.PointerEvent): Point | null => {
+    const svg = overlayRef.current;
+    if (!svg || !videoSize.width) return null;
+    const rect = svg.getBoundingClientRect();
+    const scale = Math.min(rect.width / videoSize.width, rect.height / videoSize.height);
+    const offsetX = (rect.width - videoSize.width * scale) / 2;
+    const offsetY = (rect.height - videoSize.height * scale) / 2;
+    const px = (e.clientX - rect.left - offsetX) / scale;
+    const py = (e.clientY - rect.top - offsetY) / scale;
+    return {
+      x: Math.max(0, Math.min(videoSize.width, videoSize.width - px)),
+      y: Math.max(0, Math.min(videoSize.height, py))
+    };
+  };
+
+  const handleCornerDown = (index: number) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    // Adjusting a corner by hand locks the outline so detection doesn't undo it
+    setAutoDetect(false);
+    dragCornerRef.current = index;
+    overlayRef.current?.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const index = dragCornerRef.current;
+    if (index === null) return;
+    const point = toVideoPoint(e);
+    if (!point) return;
+    setQuad(prev => {
+      if (!prev) return prev;
+      const next = [...prev] as Quad;
+      next[index] = point;
+      return next;
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    dragCornerRef.current = null;
+    if (overlayRef.current?.hasPointerCapture(e.pointerId)) {
+      overlayRef.current.releasePointerCapture(e.pointerId);
+    }
+  };
+
+  const toggleLock = () => {
+    if (autoDetect) {
+      setAutoDetect(false);
+      if (!quad && videoSize.width) setQuad(defaultQuad(videoSize.width, videoSize.height));
+    } else {
+      setAutoDetect(true);
+    }
+  };
+
+  // The coach annotates the frame it was sent: the flattened page when there is one, else the whole video
+  const projectAnnotation = (() => {
+    const space: Quad = [
+      { x: 0, y: 0 }, { x: ANNOTATION_SPACE, y: 0 },
+      { x: ANNOTATION_SPACE, y: ANNOTATION_SPACE }, { x: 0, y: ANNOTATION_SPACE }
+    ];
+    if (quad && rectify) {
+      const h = computeHomography(space, quad);
+      return (p: Point) => applyHomography(h, p);
+    }
+    return (p: Point) => ({
+      x: (p.x / ANNOTATION_SPACE) * videoSize.width,
+      y: (p.y / ANNOTATION_SPACE) * videoSize.height
+    });
+  })();
+
+  const toolButtonClass = 'px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs font-medium transition-colors';
+  const handleRadius = Math.max(videoSize.width, videoSize.height) / 80;
+
   return (
     <div className="relative w-full h-full bg-black rounded-xl overflow-hidden shadow-2xl border border-slate-700 flex items-center justify-center">
-      <video 
-        ref={videoRef} 
-        autoPlay 
-        playsInline 
-        muted 
+      <video
+        ref={videoRef}
+        autoPlay
+        playsInline
+        muted
+        onLoadedMetadata={(e) => setVideoSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
         className="w-full h-full object-contain mirror"
         style={{ transform: 'scaleX(-1)' }}
       />
+      {videoSize.width > 0 && (
+        <svg
+          ref={overlayRef}
+          viewBox={`0 0 ${videoSize.width} ${videoSize.height}`}
+          preserveAspectRatio="xMidYMid meet"
+          className="absolute inset-0 w-full h-full"
+          style={{ transform: 'scaleX(-1)', pointerEvents: quad ? 'auto' : 'none' }}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <AnnotationShapes annotations={annotations} project={projectAnnotation} unit={handleRadius / 4} mirrored />
+          {quad && (
+            <>
+              <polygon
+                points={quad.map(p => `${p.x},${p.y}`).join(' ')}
+                fill="rgba(99, 102, 241, 0.08)"
+                stroke={autoDetect ? '#818cf8' : '#22c55e'}
+                strokeWidth={handleRadius / 3}
+                strokeDasharray={autoDetect ? `${handleRadius} ${handleRadius / 2}` : undefined}
+                style={{ pointerEvents: 'none' }}
+              />
+              {quad.map((p, i) => (
+                <circle
+                  key={i}
+                  cx={p.x}
+                  cy={p.y}
+                  r={handleRadius}
+                  fill={autoDetect ? '#818cf8' : '#22c55e'}
+                  stroke="white"
+                  strokeWidth={handleRadius / 4}
+                  className="cursor-move"
+                  onPointerDown={handleCornerDown(i)}
+                />
+              ))}
+            </>
+          )}
+        </svg>
+      )}
       <canvas ref={canvasRef} className="hidden" />
+      <canvas ref={rectifiedCanvasRef} className="hidden" />
+      <div className="absolute top-4 left-4 z-10 flex gap-2 bg-slate-900/80 p-2 rounded-lg backdrop-blur-sm border border-slate-700">
+        <button onClick={() => setRectify(r => !r)} className={toolButtonClass}>
+          {rectify ? 'Flatten Page: On' : 'Flatten Page: Off'}
+        </button>
+        <button onClick={toggleLock} className={toolButtonClass}>
+          {autoDetect ? 'Lock Corners' : 'Unlock (Auto-detect)'}
+        </button>
+      </div>
       <div className="absolute top-4 right-4 bg-slate-900/80 px-3 py-1 rounded-full border border-indigo-500/50 flex items-center gap-2">
         <div className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />
-        <span className="text-[10px] font-bold text-indigo-100 uppercase tracking-widest">Tracking Active</span>
+        <span className="text-[10px] font-bold text-indigo-100 uppercase tracking-widest">
+          {quad ? (autoDetect ? 'Page Found' : 'Corners Locked') : 'Tracking Active'}
+        </span>
       </div>
       <div className="absolute bottom-6 left-1/2 -translate-x-1/2 text-center pointer-events-none w-full px-10">
         <p className="text-white/60 text-xs bg-black/40 backdrop-blur-sm py-2 px-4 rounded-lg inline-block">
-          Point your camera at your paper, iPad, or sketchbook
+          {quad
+            ? 'Drag the corners to adjust the page outline'
+            : 'Point your camera at your paper, iPad, or sketchbook'}
         </p>
       </div>
     </div>
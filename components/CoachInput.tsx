@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+
+interface CoachInputProps {
+  disabled: boolean;
+  onSend: (text: string) => void;
+  onCritique: () => void;
+  // Written critiques work without a live session; no file means the current canvas or camera frame.
+  onWrittenCritique: (file?: File) => void;
+  critiquePending: boolean;
+  critiqueError: string | null;
+}
+
+const CoachInput: React.FC<CoachInputProps> = ({ disabled, onSend, onCritique, onWrittenCritique, critiquePending, critiqueError }) => {
+  const [text, setText] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = text.trim();
+    if (!trimmed || disabled) return;
+    onSend(trimmed);
+    setText('');
+  };
+
+  return (
+    <div className="p-3 border-t border-slate-800 bg-slate-900/50 space-y-2">
+      <form onSubmit={handleSubmit} className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          disabled={disabled}
+          placeholder={disabled ? 'Start a session to type to your coach' : 'Ask your coach...'}
+          className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-xs text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/50 disabled:opacity-50"
+        />
+        <button
+          type="submit"
+          disabled={disabled || !text.trim()}
+          className="px-3 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 rounded-lg text-xs font-bold text-white transition-colors"
+        >
+          Send
+        </button>
+      </form>
+      <div className="flex gap-2">
+        <button
+          onClick={onCritique}
+          disabled={disabled}
+          title="Spoken critique of the current frame, in the live session"
+          className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 rounded-lg text-[10px] font-bold uppercase tracking-wider text-indigo-300 transition-colors"
+        >
+          Critique Now
+        </button>
+        <button
+          onClick={() => onWrittenCritique()}
+          disabled={critiquePending}
+          title="Written critique of the current drawing; no live session needed"
+          className="flex-1 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 rounded-lg text-[10px] font-bold uppercase tracking-wider text-indigo-300 transition-colors"
+        >
+          {critiquePending ? 'Critiquing…' : 'Critique This Drawing'}
+        </button>
+        <label
+          title="Upload an image for a written critique"
+          className={`px-3 py-2 bg-slate-800 hover:bg-slate-700 rounded-lg text-[10px] font-bold text-indigo-300 transition-colors ${
+            critiquePending ? 'opacity-40 pointer-events-none' : 'cursor-pointer'
+          }`}
+        >
+          ↑
+          <input
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onWrittenCritique(file);
+            }}
+          />
+        </label>
+      </div>
+      {critiqueError && <p className="text-[10px] text-red-300">{critiqueError}</p>}
+    </div>
+  );
+};
+
+export default CoachInput;
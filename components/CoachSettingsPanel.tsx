@@ -0,0 +1,84 @@
+import React from 'react';
+import { CoachSettings } from '../types';
+import { COACH_LANGUAGES, COACH_TONES, COACH_VOICES, FEEDBACK_FREQUENCIES, SKILL_LEVELS } from '../constants';
+
+interface CoachSettingsPanelProps {
+  settings: CoachSettings;
+  // Settings are read when a session connects, so changes wait for the next one.
+  sessionActive: boolean;
+  onChange: (settings: CoachSettings) => void;
+  onClose: () => void;
+}
+
+function Segmented<T extends string>({ options, value, onChange }: {
+  options: { id: T; label: string }[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex p-0.5 bg-slate-950 rounded-lg border border-slate-800">
+      {options.map(o => (
+        <button
+          key={o.id}
+          onClick={() => onChange(o.id)}
+          className={`flex-1 py-1 rounded-md text-[11px] font-bold transition-all ${
+            value === o.id ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+          }`}
+        >
+          {o.label}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div>
+    <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest mb-2">{label}</p>
+    {children}
+  </div>
+);
+
+const selectClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs text-slate-200 focus:outline-none focus:border-indigo-500/60';
+
+const CoachSettingsPanel: React.FC<CoachSettingsPanelProps> = ({ settings, sessionActive, onChange, onClose }) => (
+  <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+    <div className="w-full max-w-md bg-slate-900 rounded-2xl border border-slate-800 shadow-2xl flex flex-col overflow-hidden">
+      <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+        <span className="text-xs font-semibold text-slate-400 uppercase tracking-widest">Coach Settings</span>
+        <button onClick={onClose} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded text-xs font-medium transition-colors">
+          Close
+        </button>
+      </div>
+
+      <div className="p-6 space-y-5">
+        <Field label="Feedback">
+          <Segmented options={FEEDBACK_FREQUENCIES} value={settings.frequency} onChange={frequency => onChange({ ...settings, frequency })} />
+        </Field>
+        <Field label="Tone">
+          <Segmented options={COACH_TONES} value={settings.tone} onChange={tone => onChange({ ...settings, tone })} />
+        </Field>
+        <Field label="Your Level">
+          <Segmented options={SKILL_LEVELS} value={settings.skillLevel} onChange={skillLevel => onChange({ ...settings, skillLevel })} />
+        </Field>
+        <div className="grid grid-cols-2 gap-4">
+          <Field label="Voice">
+            <select value={settings.voice} onChange={e => onChange({ ...settings, voice: e.target.value })} className={selectClass}>
+              {COACH_VOICES.map(v => <option key={v.id} value={v.id}>{v.id} ({v.description})</option>)}
+            </select>
+          </Field>
+          <Field label="Language">
+            <select value={settings.language} onChange={e => onChange({ ...settings, language: e.target.value })} className={selectClass}>
+              {COACH_LANGUAGES.map(l => <option key={l} value={l}>{l}</option>)}
+            </select>
+          </Field>
+        </div>
+        <p className="text-[10px] text-slate-500">
+          {sessionActive ? 'Saved. Changes apply from the next session.' : 'Saved on this device and used from the next session.'}
+        </p>
+      </div>
+    </div>
+  </div>
+);
+
+export default CoachSettingsPanel;
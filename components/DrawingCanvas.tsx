@@ -1,109 +1,499 @@
-
-import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef } from 'react';
+import React, { useRef, useEffect, useState, useImperativeHandle, forwardRef, useCallback } from 'react';
+import { BrushTool, Layer, Stroke, StrokePoint } from '../types';
+import { ARTWORK_IMAGE_MAX_DIMENSION, JPEG_QUALITY } from '../constants';
+import {
+  StrokeHistory, createHistory, addStroke, clearStrokes, clearLayer, dropLayer, undo, redo, canUndo, canRedo
+} from '../services/strokeHistory';
+import {
+  renderStroke, renderLayer, compositeBelow, compositeLayers, buildReplayTimeline, replayDuration, strokesAtTime
+} from '../services/strokeRenderer';
+import { createDefaultLayers, createLayer, updateLayer, moveLayer, coachLayers } from '../services/layers';
+import {
+  ARTWORK_EXTENSION, ExportOptions, artworkFilename, artworkToSvg, canvasToPng, fitArtwork, importLayerImage, layerUnderlay,
+  parseArtwork, renderArtwork, serializeArtwork
+} from '../services/artwork';
+import { downloadBlob, downloadText } from '../services/download';
+import LayerPanel from './LayerPanel';
+import ArtworkMenu from './ArtworkMenu';
 
 interface DrawingCanvasProps {
   onStroke?: () => void;
+  // A stroke was finished and added to the drawing.
+  onStrokeEnd?: (stroke: Stroke) => void;
+  onStrokesChange?: (strokes: Stroke[]) => void;
+  onLayersChange?: (layers: Layer[]) => void;
 }
 
 export interface DrawingCanvasRef {
-  getFrame: () => string | null;
+  // Without layer ids, the frame shows the visible layers marked for the coach.
+  getFrame: (layerIds?: string[]) => string | null;
+  getFrameCanvas: (layerIds?: string[]) => HTMLCanvasElement | null;
   clear: () => void;
+  undo: () => void;
+  redo: () => void;
+  replay: (speed?: number) => void;
+  getStrokes: () => Stroke[];
+  getLayers: () => Layer[];
 }
 
-const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ onStroke }, ref) => {
+const TOOLS: { id: BrushTool; label: string }[] = [
+  { id: 'pencil', label: 'Pencil' },
+  { id: 'ink', label: 'Ink' },
+  { id: 'charcoal', label: 'Charcoal' },
+  { id: 'blend', label: 'Blend' },
+  { id: 'eraser', label: 'Eraser' }
+];
+
+// Touches this soon after the pen was last seen are treated as the drawing hand resting on the screen.
+const PALM_REJECTION_MS = 1000;
+const DISPLAY_SCALE = 2;
+
+// Returns the canvas kept for a layer, creating or resizing it as needed.
+const layerCanvas = (canvases: Map<string, HTMLCanvasElement>, id: string, width: number, height: number) => {
+  let canvas = canvases.get(id);
+  if (!canvas) {
+    canvas = document.createElement('canvas');
+    canvases.set(id, canvas);
+  }
+  if (canvas.width !== width || canvas.height !== height) {
+    canvas.width = width;
+    canvas.height = height;
+  }
+  return canvas;
+};
+
+const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ onStroke, onStrokeEnd, onStrokesChange, onLayersChange }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const contextRef = useRef<CanvasRenderingContext2D | null>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
+  const sizeRef = useRef({ width: 0, height: 0 });
+  const activeStrokeRef = useRef<Stroke | null>(null);
+  const activePointerRef = useRef<number | null>(null);
+  const lastPenAtRef = useRef(0);
+  const replayFrameRef = useRef<number | null>(null);
+  // One transparent canvas per layer, composited onto the display canvas
+  const layerCanvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+  // Offscreen render of the committed strokes, redrawn only when they or the chosen layers change
+  const frameCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const frameLayerCanvasesRef = useRef(new Map<string, HTMLCanvasElement>());
+  const frameStrokesRef = useRef<Stroke[] | null>(null);
+  const frameLayersKeyRef = useRef('');
+  // Scratch canvas for the layers under the one being rendered, which blend strokes pick colour up from
+  const belowCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  // For the blend stroke in progress: its layer as it was when the stroke began, and the layers under it
+  const blendBaseRef = useRef<HTMLCanvasElement | null>(null);
+  const blendBelowRef = useRef<HTMLCanvasElement | null>(null);
+  // Decoded layer pictures, keyed by their data URL
+  const imagesRef = useRef(new Map<string, HTMLImageElement>());
+  const layerImagesRef = useRef<(Layer['image'])[]>([]);
+  const [history, setHistory] = useState<StrokeHistory>(() => createHistory());
+  const [layers, setLayers] = useState<Layer[]>(createDefaultLayers);
+  const [activeLayerId, setActiveLayerId] = useState(() => layers[layers.length - 1].id);
+  const [isReplaying, setIsReplaying] = useState(false);
   const [color, setColor] = useState('#f8fafc');
   const [brushSize, setBrushSize] = useState(2);
+  const [tool, setTool] = useState<BrushTool>('pencil');
+  const [imagesLoaded, setImagesLoaded] = useState(0);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const layersRef = useRef(layers);
+  layersRef.current = layers;
+
+  const composite = useCallback(() => {
+    const context = contextRef.current;
+    if (!context) return;
+    compositeLayers(context, layersRef.current.filter(l => l.visible), layerCanvasesRef.current);
+  }, []);
+
+  // Starts decoding any layer pictures not seen yet; each one triggers a redraw once loaded
+  const loadLayerImages = useCallback(() => {
+    layersRef.current.forEach(({ image }) => {
+      if (!image || imagesRef.current.has(image.src)) return;
+      const element = new Image();
+      element.onload = () => {
+        frameStrokesRef.current = null;
+        setImagesLoaded(n => n + 1);
+      };
+      element.src = image.src;
+      imagesRef.current.set(image.src, element);
+    });
+  }, []);
+
+  const redraw = useCallback((strokes: Stroke[]) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    loadLayerImages();
+    layersRef.current.forEach(layer => {
+      renderLayer(
+        layerCanvas(layerCanvasesRef.current, layer.id, canvas.width, canvas.height),
+        strokes, layer.id, DISPLAY_SCALE, layerUnderlay(layer, imagesRef.current),
+        () => compositeBelow(belowCanvasRef.current ??= document.createElement('canvas'), layersRef.current, layer.id, layerCanvasesRef.current)
+      );
+    });
+    composite();
+  }, [composite, loadLayerImages]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
-    // Set display size
-    const rect = canvas.parentElement?.getBoundingClientRect();
-    if (rect) {
-      canvas.width = rect.width * 2;
-      canvas.height = rect.height * 2;
+    const context = canvas.getContext('2d');
+    if (!context) return;
+    contextRef.current = context;
+
+    // Follow the container's size; strokes are vector data, so a resize redraws losslessly
+    const resize = () => {
+      const rect = canvas.parentElement?.getBoundingClientRect();
+      if (!rect || (rect.width === sizeRef.current.width && rect.height === sizeRef.current.height)) return;
+      canvas.width = rect.width * DISPLAY_SCALE;
+      canvas.height = rect.height * DISPLAY_SCALE;
       canvas.style.width = `${rect.width}px`;
       canvas.style.height = `${rect.height}px`;
+      sizeRef.current = { width: rect.width, height: rect.height };
+      activeStrokeRef.current = null;
+      redraw(historyRef.current.present);
+    };
+    resize();
+    const observer = new ResizeObserver(resize);
+    if (canvas.parentElement) observer.observe(canvas.parentElement);
+
+    return () => {
+      observer.disconnect();
+      if (replayFrameRef.current) cancelAnimationFrame(replayFrameRef.current);
+    };
+  }, [redraw]);
+
+  useEffect(() => {
+    if (!isReplaying) redraw(history.present);
+  }, [history, isReplaying, redraw, imagesLoaded]);
+
+  // Visibility, opacity and order only need a re-composite; adding or removing a picture needs a redraw
+  useEffect(() => {
+    const ids = new Set(layers.map(l => l.id));
+    [layerCanvasesRef.current, frameLayerCanvasesRef.current].forEach(canvases => {
+      canvases.forEach((_, id) => { if (!ids.has(id)) canvases.delete(id); });
+    });
+    const srcs = new Set(layers.map(l => l.image?.src));
+    imagesRef.current.forEach((_, src) => { if (!srcs.has(src)) imagesRef.current.delete(src); });
+
+    const images = layers.map(l => l.image);
+    const imagesChanged = images.length !== layerImagesRef.current.length || images.some((image, i) => image !== layerImagesRef.current[i]);
+    layerImagesRef.current = images;
+    if (imagesChanged && !replayFrameRef.current) {
+      frameStrokesRef.current = null;
+      redraw(historyRef.current.present);
+    } else {
+      composite();
     }
+  }, [layers, composite, redraw]);
 
-    const context = canvas.getContext('2d');
-    if (context) {
-      context.scale(2, 2);
-      context.lineCap = 'round';
-      context.lineJoin = 'round';
-      context.strokeStyle = color;
-      context.lineWidth = brushSize;
-      contextRef.current = context;
-
-      // Fill background dark
-      context.fillStyle = '#1e293b';
-      context.fillRect(0, 0, canvas.width, canvas.height);
+  useEffect(() => {
+    onStrokesChange?.(history.present);
+  }, [history.present, onStrokesChange]);
+
+  useEffect(() => {
+    onLayersChange?.(layers);
+  }, [layers, onLayersChange]);
+
+  const stopReplay = useCallback(() => {
+    if (replayFrameRef.current) {
+      cancelAnimationFrame(replayFrameRef.current);
+      replayFrameRef.current = null;
     }
+    setIsReplaying(false);
   }, []);
 
+  const replay = useCallback((speed: number = 1) => {
+    stopReplay();
+    const timeline = buildReplayTimeline(historyRef.current.present);
+    const duration = replayDuration(timeline);
+    if (timeline.length === 0) return;
+
+    setIsReplaying(true);
+    const startedAt = performance.now();
+    const step = (now: number) => {
+      const elapsed = (now - startedAt) * speed;
+      redraw(strokesAtTime(timeline, elapsed));
+      if (elapsed < duration) {
+        replayFrameRef.current = requestAnimationFrame(step);
+      } else {
+        replayFrameRef.current = null;
+        setIsReplaying(false);
+      }
+    };
+    replayFrameRef.current = requestAnimationFrame(step);
+  }, [redraw, stopReplay]);
+
+  const handleUndo = useCallback(() => {
+    stopReplay();
+    setHistory(h => undo(h));
+  }, [stopReplay]);
+
+  const handleRedo = useCallback(() => {
+    stopReplay();
+    setHistory(h => redo(h));
+  }, [stopReplay]);
+
+  const handleClear = useCallback(() => {
+    stopReplay();
+    setHistory(h => clearStrokes(h));
+  }, [stopReplay]);
+
   useEffect(() => {
-    if (contextRef.current) {
-      contextRef.current.strokeStyle = color;
-      contextRef.current.lineWidth = brushSize;
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleClearLayer = useCallback(() => {
+    stopReplay();
+    setHistory(h => clearLayer(h, activeLayerId));
+  }, [stopReplay, activeLayerId]);
+
+  const handleAddLayer = () => {
+    const layer = createLayer(`Layer ${layers.length + 1}`);
+    // New layers go straight above the one being drawn on
+    setLayers(prev => {
+      const index = prev.findIndex(l => l.id === activeLayerId);
+      return [...prev.slice(0, index + 1), layer, ...prev.slice(index + 1)];
+    });
+    setActiveLayerId(layer.id);
+  };
+
+  const handleDeleteLayer = (id: string) => {
+    const remaining = layers.filter(l => l.id !== id);
+    // Only empty layers go; layers aren't in the undo history, so their strokes are dropped from it too
+    if (remaining.length === 0 || history.present.some(s => s.layerId === id)) return;
+    stopReplay();
+    setHistory(h => dropLayer(h, id));
+    setLayers(remaining);
+    if (activeLayerId === id) setActiveLayerId(remaining[remaining.length - 1].id);
+  };
+
+  // Renders from stroke data rather than reading back the display canvas
+  const getFrameCanvas = useCallback((layerIds?: string[]): HTMLCanvasElement | null => {
+    const { width, height } = sizeRef.current;
+    if (!width || !height) return null;
+    if (!frameCanvasRef.current) frameCanvasRef.current = document.createElement('canvas');
+    const frame = frameCanvasRef.current;
+    const strokes = historyRef.current.present;
+    const chosen = layerIds
+      ? layersRef.current.filter(l => layerIds.includes(l.id))
+      : coachLayers(layersRef.current);
+    const layersKey = chosen.map(l => `${l.id}:${l.opacity}`).join('|');
+    if (
+      frameStrokesRef.current === strokes && frameLayersKeyRef.current === layersKey &&
+      frame.width === width && frame.height === height
+    ) {
+      return frame;
+    }
+    frame.width = width;
+    frame.height = height;
+    const ctx = frame.getContext('2d');
+    if (!ctx) return null;
+    chosen.forEach(layer => {
+      renderLayer(
+        layerCanvas(frameLayerCanvasesRef.current, layer.id, width, height),
+        strokes, layer.id, 1, layerUnderlay(layer, imagesRef.current),
+        () => compositeBelow(belowCanvasRef.current ??= document.createElement('canvas'), chosen, layer.id, frameLayerCanvasesRef.current)
+      );
+    });
+    compositeLayers(ctx, chosen, frameLayerCanvasesRef.current);
+    frameStrokesRef.current = strokes;
+    frameLayersKeyRef.current = layersKey;
+    return frame;
+  }, []);
+
+  const handleSave = () => {
+    const { width, height } = sizeRef.current;
+    downloadText(serializeArtwork(history.present, layers, width, height), artworkFilename(ARTWORK_EXTENSION), 'application/json');
+  };
+
+  // Replaces the drawing, layers and undo history with the saved artwork
+  const handleOpen = async (file: File) => {
+    try {
+      const { width, height } = sizeRef.current;
+      const project = fitArtwork(parseArtwork(await file.text()), width, height);
+      stopReplay();
+      activeStrokeRef.current = null;
+      setLayers(project.layers);
+      // Start on the top layer that can be drawn on
+      const top = [...project.layers].reverse().find(l => !l.locked) ?? project.layers[project.layers.length - 1];
+      setActiveLayerId(top.id);
+      setHistory(createHistory(project.strokes));
+      setFileError(null);
+    } catch (err) {
+      setFileError(`Couldn't open ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
     }
-  }, [color, brushSize]);
+  };
+
+  // The picture goes on its own locked layer at the bottom, ready to trace over
+  const handleImportImage = async (file: File) => {
+    const { width, height } = sizeRef.current;
+    try {
+      const image = await importLayerImage(file, ARTWORK_IMAGE_MAX_DIMENSION, width, height);
+      const name = file.name.replace(/\.[^.]+$/, '');
+      setLayers(prev => [createLayer(`Image: ${name}`, { locked: true, image }), ...prev]);
+      setFileError(null);
+    } catch (err) {
+      setFileError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleExportPng = async (options: ExportOptions) => {
+    const { width, height } = sizeRef.current;
+    try {
+      const canvas = renderArtwork(history.present, layers, imagesRef.current, width, height, options);
+      downloadBlob(await canvasToPng(canvas), artworkFilename('.png'));
+    } catch (err) {
+      setFileError(`PNG export failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleExportSvg = (background: string | null) => {
+    const { width, height } = sizeRef.current;
+    downloadText(artworkToSvg(history.present, layers, Math.round(width), Math.round(height), background), artworkFilename('.svg'), 'image/svg+xml');
+  };
 
   useImperativeHandle(ref, () => ({
-    getFrame: () => {
-      if (!canvasRef.current) return null;
-      // Return as base64 jpeg
-      return canvasRef.current.toDataURL('image/jpeg', 0.6).split(',')[1];
+    getFrame: (layerIds) => {
+      const frame = getFrameCanvas(layerIds);
+      return frame ? frame.toDataURL('image/jpeg', JPEG_QUALITY).split(',')[1] : null;
     },
-    clear: () => {
+    getFrameCanvas,
+    clear: handleClear,
+    undo: handleUndo,
+    redo: handleRedo,
+    replay,
+    getStrokes: () => historyRef.current.present,
+    getLayers: () => layersRef.current
+  }), [getFrameCanvas, handleClear, handleUndo, handleRedo, replay]);
+
+  const isPalm = (e: React.PointerEvent) => {
+    if (e.pointerType === 'pen') {
+      lastPenAtRef.current = Date.now();
+      return false;
+    }
+    return e.pointerType === 'touch' && Date.now() - lastPenAtRef.current < PALM_REJECTION_MS;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isReplaying || isPalm(e) || e.button > 0) return;
+    const layer = layers.find(l => l.id === activeLayerId);
+    if (!layer || layer.locked || !layer.visible) return;
+    // A pen landing while a touch stroke is in progress was the palm all along
+    if (activeStrokeRef.current && e.pointerType === 'pen' && activeStrokeRef.current.pointerType === 'touch') {
+      activeStrokeRef.current = null;
+      redraw(historyRef.current.present);
+    }
+    if (activeStrokeRef.current) return;
+
+    e.currentTarget.setPointerCapture(e.pointerId);
+    activePointerRef.current = e.pointerId;
+    const stroke: Stroke = {
+      id: crypto.randomUUID(),
+      points: [getPoint(e.nativeEvent)],
+      color,
+      size: brushSize,
+      tool,
+      pointerType: e.pointerType === 'pen' || e.pointerType === 'touch' ? e.pointerType : 'mouse',
+      layerId: layer.id
+    };
+    activeStrokeRef.current = stroke;
+    if (tool === 'blend') {
       const canvas = canvasRef.current;
-      const context = contextRef.current;
-      if (canvas && context) {
-        context.fillStyle = '#1e293b';
-        context.fillRect(0, 0, canvas.width, canvas.height);
+      if (canvas) {
+        const base = blendBaseRef.current ??= document.createElement('canvas');
+        base.width = canvas.width;
+        base.height = canvas.height;
+        base.getContext('2d')?.drawImage(layerCanvas(layerCanvasesRef.current, layer.id, canvas.width, canvas.height), 0, 0);
+        compositeBelow(blendBelowRef.current ??= document.createElement('canvas'), layersRef.current, layer.id, layerCanvasesRef.current);
       }
     }
-  }));
+    paintLive(stroke, 0);
+  };
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    const { offsetX, offsetY } = getCoordinates(e);
-    contextRef.current?.beginPath();
-    contextRef.current?.moveTo(offsetX, offsetY);
-    setIsDrawing(true);
+  // Draws the in-progress stroke onto its layer and refreshes the display
+  const paintLive = (stroke: Stroke, fromIndex: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const layerCtx = layerCanvas(layerCanvasesRef.current, stroke.layerId, canvas.width, canvas.height)
+      .getContext('2d', { willReadFrequently: true });
+    if (!layerCtx) return;
+    layerCtx.setTransform(DISPLAY_SCALE, 0, 0, DISPLAY_SCALE, 0, 0);
+    if (stroke.tool === 'blend') {
+      renderStroke(layerCtx, stroke, fromIndex, blendBelowRef.current ?? undefined, blendBaseRef.current ?? undefined);
+    } else {
+      renderStroke(layerCtx, stroke, fromIndex);
+    }
+    composite();
   };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing) return;
-    const { offsetX, offsetY } = getCoordinates(e);
-    contextRef.current?.lineTo(offsetX, offsetY);
-    contextRef.current?.stroke();
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerType === 'pen') lastPenAtRef.current = Date.now();
+    const stroke = activeStrokeRef.current;
+    if (!stroke || e.pointerId !== activePointerRef.current) return;
+    const from = stroke.points.length;
+    // Coalesced events carry the samples the browser batched between frames
+    const events = e.nativeEvent.getCoalescedEvents?.() ?? [];
+    (events.length > 0 ? events : [e.nativeEvent]).forEach(ev => stroke.points.push(getPoint(ev)));
+    // Paint only the new segments; the full stroke is re-rendered from data on the next redraw
+    paintLive(stroke, from);
     onStroke?.();
   };
 
-  const stopDrawing = () => {
-    contextRef.current?.closePath();
-    setIsDrawing(false);
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (e.pointerId !== activePointerRef.current) return;
+    if (e.currentTarget.hasPointerCapture(e.pointerId)) e.currentTarget.releasePointerCapture(e.pointerId);
+    activePointerRef.current = null;
+    const stroke = activeStrokeRef.current;
+    if (!stroke) return;
+    activeStrokeRef.current = null;
+    setHistory(h => addStroke(h, stroke));
+    onStrokeEnd?.(stroke);
   };
 
-  const getCoordinates = (e: React.MouseEvent | React.TouchEvent) => {
-    if ('nativeEvent' in e && e.nativeEvent instanceof MouseEvent) {
-      return { offsetX: e.nativeEvent.offsetX, offsetY: e.nativeEvent.offsetY };
-    } else {
-      const touch = (e as React.TouchEvent).touches[0];
-      const rect = canvasRef.current?.getBoundingClientRect();
-      return {
-        offsetX: touch.clientX - (rect?.left || 0),
-        offsetY: touch.clientY - (rect?.top || 0)
-      };
-    }
+  const getPoint = (e: PointerEvent): StrokePoint => {
+    const rect = canvasRef.current?.getBoundingClientRect();
+    return {
+      x: e.clientX - (rect?.left || 0),
+      y: e.clientY - (rect?.top || 0),
+      // Each coalesced event keeps its own time; timeStamp counts from timeOrigin, history uses epoch ms
+      t: e.timeStamp > 0 ? performance.timeOrigin + e.timeStamp : Date.now(),
+      // Mice and most fingers report a flat 0.5 while pressed; only pens vary it
+      pressure: e.pointerType === 'pen' ? e.pressure : 0.5,
+      tiltX: e.tiltX || 0,
+      tiltY: e.tiltY || 0
+    };
   };
 
+  const toolButtonClass = 'px-3 py-1 bg-slate-700 hover:bg-slate-600 disabled:opacity-40 disabled:hover:bg-slate-700 rounded text-xs font-medium transition-colors';
+
   return (
     <div className="relative w-full h-full bg-slate-800 rounded-xl overflow-hidden shadow-2xl border border-slate-700">
       <div className="absolute top-4 left-4 z-10 flex gap-2 bg-slate-900/80 p-2 rounded-lg backdrop-blur-sm border border-slate-700">
+        <ArtworkMenu
+          empty={history.present.length === 0 && !layers.some(l => l.image)}
+          onSave={handleSave}
+          onOpen={handleOpen}
+          onImportImage={handleImportImage}
+          onExportPng={handleExportPng}
+          onExportSvg={handleExportSvg}
+        />
         <input 
           type="color" 
           value={color} 
@@ -118,30 +508,64 @@ const DrawingCanvas = forwardRef<DrawingCanvasRef, DrawingCanvasProps>(({ onStro
           onChange={(e) => setBrushSize(parseInt(e.target.value))}
           className="w-24"
         />
-        <button 
-          onClick={() => {
-            const canvas = canvasRef.current;
-            const context = contextRef.current;
-            if (canvas && context) {
-              context.fillStyle = '#1e293b';
-              context.fillRect(0, 0, canvas.width, canvas.height);
-            }
-          }}
-          className="px-3 py-1 bg-slate-700 hover:bg-slate-600 rounded text-xs font-medium transition-colors"
+        <div className="flex p-0.5 bg-slate-950 rounded border border-slate-800">
+          {TOOLS.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTool(t.id)}
+              className={`px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+                tool === t.id ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-slate-200'
+              }`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+        <button onClick={handleUndo} disabled={!canUndo(history)} title="Undo (Ctrl+Z)" className={toolButtonClass}>
+          Undo
+        </button>
+        <button onClick={handleRedo} disabled={!canRedo(history)} title="Redo (Ctrl+Shift+Z)" className={toolButtonClass}>
+          Redo
+        </button>
+        <button
+          onClick={() => isReplaying ? stopReplay() : replay()}
+          disabled={history.present.length === 0}
+          className={toolButtonClass}
+        >
+          {isReplaying ? 'Stop' : 'Replay'}
+        </button>
+        <button
+          onClick={handleClearLayer}
+          disabled={layers.find(l => l.id === activeLayerId)?.locked}
+          title="Clear the selected layer"
+          className={toolButtonClass}
         >
-          Clear
+          Clear Layer
         </button>
       </div>
+      {fileError && (
+        <div className="absolute top-32 left-4 z-10 max-w-md flex items-start gap-2 bg-red-500/10 p-2 rounded-lg border border-red-500/30 backdrop-blur-sm text-xs text-red-300">
+          <span className="flex-1">{fileError}</span>
+          <button onClick={() => setFileError(null)} className="text-red-300 hover:text-white leading-none" title="Dismiss">×</button>
+        </div>
+      )}
+      <LayerPanel
+        layers={layers}
+        activeLayerId={activeLayerId}
+        strokes={history.present}
+        onSelect={setActiveLayerId}
+        onChange={(id, patch) => setLayers(prev => updateLayer(prev, id, patch))}
+        onMove={(id, direction) => setLayers(prev => moveLayer(prev, id, direction))}
+        onAdd={handleAddLayer}
+        onDelete={handleDeleteLayer}
+      />
       <canvas
         ref={canvasRef}
-        onMouseDown={startDrawing}
-        onMouseMove={draw}
-        onMouseUp={stopDrawing}
-        onMouseLeave={stopDrawing}
-        onTouchStart={startDrawing}
-        onTouchMove={draw}
-        onTouchEnd={stopDrawing}
-        className="cursor-crosshair w-full h-full block"
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="cursor-crosshair w-full h-full block touch-none"
       />
     </div>
   );
@@ -0,0 +1,135 @@
+import React from 'react';
+import { GestureAttempt, GestureReference, GestureRunState } from '../types';
+import { GESTURE_DURATIONS_SEC } from '../constants';
+import { currentReference, poseTimeRemaining } from '../services/gesturePractice';
+
+interface GesturePanelProps {
+  references: GestureReference[];
+  run: GestureRunState | null;
+  durationSec: number;
+  attempts: GestureAttempt[];
+  now: number;
+  onLoadFiles: (files: FileList) => void;
+  onDurationChange: (durationSec: number) => void;
+  onStart: () => void;
+  onPauseToggle: () => void;
+  onNext: () => void;
+  onSkip: () => void;
+  onStop: () => void;
+  onClose: () => void;
+}
+
+const formatClock = (ms: number) => {
+  const total = Math.ceil(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const formatDuration = (sec: number) => sec < 60 ? `${sec}s` : `${sec / 60}m`;
+
+const GesturePanel: React.FC<GesturePanelProps> = ({
+  references, run, durationSec, attempts, now,
+  onLoadFiles, onDurationChange, onStart, onPauseToggle, onNext, onSkip, onStop, onClose
+}) => {
+  const buttonClass = 'px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-colors';
+  const running = run && !run.finished;
+  const reference = run ? currentReference(run) : null;
+  const remaining = run ? poseTimeRemaining(run, now) : 0;
+
+  const handleFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) onLoadFiles(e.target.files);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="w-80 shrink-0 flex flex-col gap-3 bg-slate-900 p-4 rounded-2xl border border-slate-800 min-h-0">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest">Gesture Practice</h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-white text-sm" title="Close gesture practice">×</button>
+      </div>
+
+      {!running && (
+        <>
+          <div className="flex gap-2">
+            <label className={`${buttonClass} flex-1 text-center cursor-pointer`}>
+              Choose Images
+              <input type="file" accept="image/*" multiple className="hidden" onChange={handleFiles} />
+            </label>
+            <label className={`${buttonClass} flex-1 text-center cursor-pointer`}>
+              Choose Folder
+              {/* webkitdirectory isn't in React's input typings */}
+              <input type="file" className="hidden" onChange={handleFiles} {...{ webkitdirectory: '', directory: '' }} />
+            </label>
+          </div>
+          <p className="text-[10px] text-slate-500">
+            {references.length > 0 ? `${references.length} reference images loaded.` : 'Load reference photos to draw from.'}
+          </p>
+          <div className="flex p-0.5 bg-slate-950 rounded-lg border border-slate-800">
+            {GESTURE_DURATIONS_SEC.map(sec => (
+              <button
+                key={sec}
+                onClick={() => onDurationChange(sec)}
+                className={`flex-1 py-1 rounded-md text-[10px] font-bold transition-all ${
+                  durationSec === sec ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+                }`}
+              >
+                {formatDuration(sec)}
+              </button>
+            ))}
+          </div>
+          <button onClick={onStart} disabled={references.length === 0} className={`${buttonClass} bg-indigo-600 hover:bg-indigo-500 text-white`}>
+            {run?.finished ? 'Start Again' : 'Start Poses'}
+          </button>
+          {run?.finished && <p className="text-xs text-green-300">All {run.references.length} poses done.</p>}
+        </>
+      )}
+
+      {running && reference && (
+        <>
+          <div className="flex items-baseline justify-between">
+            <span className="text-[10px] text-indigo-400 font-bold uppercase tracking-widest">
+              Pose {run.index + 1} of {run.references.length}
+            </span>
+            <span className={`text-2xl font-mono font-bold ${remaining <= 5000 ? 'text-red-400' : 'text-slate-100'}`}>
+              {formatClock(remaining)}
+            </span>
+          </div>
+          <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className="h-full bg-indigo-500 transition-all"
+              style={{ width: `${(remaining / (run.durationSec * 1000)) * 100}%` }}
+            />
+          </div>
+          <div className="flex-1 min-h-0 bg-slate-950 rounded-xl overflow-hidden flex items-center justify-center">
+            <img src={reference.url} alt={reference.name} className="max-w-full max-h-full object-contain" />
+          </div>
+          <p className="text-[10px] text-slate-500 truncate">{reference.name}</p>
+          <div className="flex gap-2">
+            <button onClick={onPauseToggle} className={`${buttonClass} flex-1`}>{run.pausedAt !== null ? 'Resume' : 'Pause'}</button>
+            <button onClick={onNext} className={`${buttonClass} flex-1`} title="End this pose now">Done</button>
+            <button onClick={onSkip} className={`${buttonClass} flex-1`} title="Skip without saving">Skip</button>
+            <button onClick={onStop} className={`${buttonClass} flex-1`}>Stop</button>
+          </div>
+        </>
+      )}
+
+      {attempts.length > 0 && (
+        <div className={running ? '' : 'flex-1 min-h-0 overflow-y-auto'}>
+          <p className="text-[10px] text-slate-500 mb-2">{attempts.length} attempts saved</p>
+          <div className="grid grid-cols-4 gap-1">
+            {attempts.slice(running ? -4 : 0).map(a => (
+              <img
+                key={a.completedAt}
+                src={`data:image/jpeg;base64,${a.attempt}`}
+                alt={a.referenceName}
+                title={a.referenceName}
+                className="w-full aspect-square object-cover rounded border border-slate-800"
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GesturePanel;
@@ -0,0 +1,191 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GuideSettings, PerspectiveMode, Point } from '../types';
+import { FIGURE_RULER_MARKS, activeVanishingPoints, createDefaultGuides } from '../services/perspectiveGuides';
+
+interface GuideOverlayProps {
+  guides: GuideSettings | null;
+  onChange: (guides: GuideSettings) => void;
+}
+
+type DragTarget = 'horizon' | 'VP1' | 'VP2' | 'VP3' | 'ruler' | 'ruler-top' | 'ruler-bottom';
+
+const MODES: { id: PerspectiveMode; label: string }[] = [
+  { id: 'off', label: 'Off' },
+  { id: 'horizon', label: 'Horizon' },
+  { id: '1-point', label: '1-Pt' },
+  { id: '2-point', label: '2-Pt' },
+  { id: '3-point', label: '3-Pt' }
+];
+
+// Rays per vanishing point, spread around the canvas edge.
+const RAY_COUNT = 32;
+const GUIDE_COLOR = '#38bdf8';
+const HANDLE_RADIUS = 7;
+
+function edgePoints(width: number, height: number, count: number): Point[] {
+  const perimeter = 2 * (width + height);
+  return Array.from({ length: count }, (_, i) => {
+    let d = (i / count) * perimeter;
+    if (d < width) return { x: d, y: 0 };
+    d -= width;
+    if (d < height) return { x: width, y: d };
+    d -= height;
+    if (d < width) return { x: width - d, y: height };
+    return { x: 0, y: height - (d - width) };
+  });
+}
+
+const GuideOverlay: React.FC<GuideOverlayProps> = ({ guides, onChange }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ target: DragTarget; last: Point } | null>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const observer = new ResizeObserver(([entry]) => {
+      setSize({ width: entry.contentRect.width, height: entry.contentRect.height });
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, []);
+
+  // Lay the guides out once the canvas size is known. On a resize they stay put,
+  // like the strokes, so they still line up with what was drawn.
+  useEffect(() => {
+    if (size.width === 0) return;
+    if (!guides) onChange(createDefaultGuides(size.width, size.height));
+    else if (guides.width !== size.width || guides.height !== size.height) onChange({ ...guides, width: size.width, height: size.height });
+  }, [guides, size, onChange]);
+
+  const toPoint = (e: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const startDrag = (target: DragTarget) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    dragRef.current = { target, last: toPoint(e) };
+    // Capture on the handle; moves bubble up to the SVG, which ignores hits itself
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !guides) return;
+    const p = toPoint(e);
+    const dx = p.x - drag.last.x;
+    const dy = p.y - drag.last.y;
+    drag.last = p;
+    switch (drag.target) {
+      case 'horizon': onChange({ ...guides, horizonY: p.y }); break;
+      case 'VP1': onChange({ ...guides, vp1X: p.x, horizonY: p.y }); break;
+      case 'VP2': onChange({ ...guides, vp2X: p.x, horizonY: p.y }); break;
+      case 'VP3': onChange({ ...guides, vp3: p }); break;
+      case 'ruler': onChange({ ...guides, rulerX: guides.rulerX + dx, rulerTop: guides.rulerTop + dy, rulerBottom: guides.rulerBottom + dy }); break;
+      case 'ruler-top': onChange({ ...guides, rulerTop: Math.min(p.y, guides.rulerBottom - 40) }); break;
+      case 'ruler-bottom': onChange({ ...guides, rulerBottom: Math.max(p.y, guides.rulerTop + 40) }); break;
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    dragRef.current = null;
+    const target = e.target as Element;
+    if (target.hasPointerCapture(e.pointerId)) target.releasePointerCapture(e.pointerId);
+  };
+
+  const { width, height } = size;
+  const vanishingPoints = guides ? activeVanishingPoints(guides) : [];
+  const rayEnds = edgePoints(width, height, RAY_COUNT);
+  const headHeight = guides ? (guides.rulerBottom - guides.rulerTop) / 8 : 0;
+  const buttonClass = (active: boolean) => `px-2 py-0.5 rounded text-xs font-medium transition-colors ${
+    active ? 'bg-sky-600 text-white' : 'text-slate-400 hover:text-slate-200'
+  }`;
+
+  return (
+    <>
+      <svg
+        ref={svgRef}
+        className="absolute inset-0 w-full h-full z-[4] pointer-events-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {guides && guides.perspective !== 'off' && (
+          <g>
+            {vanishingPoints.map(({ target, point }) => (
+              <g key={target} stroke={GUIDE_COLOR} strokeOpacity={0.18} strokeWidth={1}>
+                {rayEnds.map((end, i) => <line key={i} x1={point.x} y1={point.y} x2={end.x} y2={end.y} />)}
+              </g>
+            ))}
+            <line x1={0} y1={guides.horizonY} x2={width} y2={guides.horizonY} stroke={GUIDE_COLOR} strokeOpacity={0.7} strokeWidth={1.5} />
+            {/* Wide invisible hit area so the horizon is easy to grab */}
+            <line
+              x1={0} y1={guides.horizonY} x2={width} y2={guides.horizonY}
+              stroke="transparent" strokeWidth={12}
+              className="cursor-ns-resize" style={{ pointerEvents: 'stroke' }}
+              onPointerDown={startDrag('horizon')}
+            />
+            {vanishingPoints.map(({ target, point }) => (
+              <g key={target} className="cursor-move" style={{ pointerEvents: 'auto' }} onPointerDown={startDrag(target)}>
+                <circle cx={point.x} cy={point.y} r={HANDLE_RADIUS} fill={GUIDE_COLOR} stroke="white" strokeWidth={2} />
+                <text x={point.x + HANDLE_RADIUS + 4} y={point.y - HANDLE_RADIUS} fontSize={10} fontWeight={700} fill={GUIDE_COLOR}>{target}</text>
+              </g>
+            ))}
+          </g>
+        )}
+        {guides?.showFigureRuler && (
+          <g>
+            <line
+              x1={guides.rulerX} y1={guides.rulerTop} x2={guides.rulerX} y2={guides.rulerBottom}
+              stroke="#f59e0b" strokeOpacity={0.8} strokeWidth={2}
+            />
+            <line
+              x1={guides.rulerX} y1={guides.rulerTop} x2={guides.rulerX} y2={guides.rulerBottom}
+              stroke="transparent" strokeWidth={14}
+              className="cursor-move" style={{ pointerEvents: 'stroke' }}
+              onPointerDown={startDrag('ruler')}
+            />
+            {FIGURE_RULER_MARKS.map((mark, i) => {
+              const y = guides.rulerTop + headHeight * i;
+              return (
+                <g key={mark}>
+                  <line x1={guides.rulerX - 8} y1={y} x2={guides.rulerX + 8} y2={y} stroke="#f59e0b" strokeWidth={1.5} />
+                  <text x={guides.rulerX + 12} y={y + 3} fontSize={9} fill="#fbbf24">{i > 0 ? `${i} · ${mark}` : mark}</text>
+                </g>
+              );
+            })}
+            {(['ruler-top', 'ruler-bottom'] as const).map(target => (
+              <circle
+                key={target}
+                cx={guides.rulerX}
+                cy={target === 'ruler-top' ? guides.rulerTop : guides.rulerBottom}
+                r={HANDLE_RADIUS - 1}
+                fill="#f59e0b" stroke="white" strokeWidth={2}
+                className="cursor-ns-resize" style={{ pointerEvents: 'auto' }}
+                onPointerDown={startDrag(target)}
+              />
+            ))}
+          </g>
+        )}
+      </svg>
+      {guides && (
+        <div className="absolute top-20 left-4 z-10 flex items-center gap-1 bg-slate-900/80 p-1.5 rounded-lg backdrop-blur-sm border border-slate-700">
+          <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest px-1">Guides</span>
+          {MODES.map(m => (
+            <button key={m.id} onClick={() => onChange({ ...guides, perspective: m.id })} className={buttonClass(guides.perspective === m.id)}>
+              {m.label}
+            </button>
+          ))}
+          <span className="w-px h-4 bg-slate-700 mx-1" />
+          <button onClick={() => onChange({ ...guides, showFigureRuler: !guides.showFigureRuler })} className={buttonClass(guides.showFigureRuler)}>
+            8-Head Ruler
+          </button>
+        </div>
+      )}
+    </>
+  );
+};
+
+export default GuideOverlay;
@@ -0,0 +1,86 @@
+import React from 'react';
+import { Layer, Stroke } from '../types';
+
+interface LayerPanelProps {
+  layers: Layer[];
+  activeLayerId: string;
+  strokes: Stroke[];
+  onSelect: (id: string) => void;
+  onChange: (id: string, patch: Partial<Omit<Layer, 'id'>>) => void;
+  onMove: (id: string, direction: 'up' | 'down') => void;
+  onAdd: () => void;
+  onDelete: (id: string) => void;
+}
+
+const toggleClass = (on: boolean) =>
+  `w-6 h-6 rounded text-[10px] font-bold transition-colors ${on ? 'bg-slate-700 text-slate-100' : 'text-slate-600 hover:text-slate-400'}`;
+
+const LayerPanel: React.FC<LayerPanelProps> = ({
+  layers, activeLayerId, strokes, onSelect, onChange, onMove, onAdd, onDelete
+}) => {
+  const activeIndex = layers.findIndex(l => l.id === activeLayerId);
+  const activeIsEmpty = !strokes.some(s => s.layerId === activeLayerId);
+
+  return (
+    <div className="absolute bottom-4 left-4 z-10 w-56 bg-slate-900/80 p-2 rounded-lg backdrop-blur-sm border border-slate-700 space-y-1">
+      <div className="flex items-center justify-between px-1">
+        <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest">Layers</span>
+        <div className="flex gap-1">
+          <button onClick={() => onMove(activeLayerId, 'up')} disabled={activeIndex === layers.length - 1} title="Move layer up" className="px-1.5 text-xs text-slate-400 hover:text-white disabled:opacity-30">↑</button>
+          <button onClick={() => onMove(activeLayerId, 'down')} disabled={activeIndex === 0} title="Move layer down" className="px-1.5 text-xs text-slate-400 hover:text-white disabled:opacity-30">↓</button>
+          <button onClick={onAdd} title="Add layer" className="px-1.5 text-xs text-slate-400 hover:text-white">+</button>
+          <button
+            onClick={() => onDelete(activeLayerId)}
+            disabled={layers.length === 1 || !activeIsEmpty}
+            title={activeIsEmpty ? 'Delete layer' : 'Clear the layer before deleting it'}
+            className="px-1.5 text-xs text-slate-400 hover:text-red-400 disabled:opacity-30"
+          >
+            ×
+          </button>
+        </div>
+      </div>
+      {/* Top of the stack first */}
+      {[...layers].reverse().map(layer => {
+        const active = layer.id === activeLayerId;
+        return (
+          <div
+            key={layer.id}
+            className={`p-1.5 rounded-md border transition-colors ${active ? 'bg-indigo-600/20 border-indigo-500/50' : 'border-transparent hover:bg-slate-800'}`}
+          >
+            <div className="flex items-center gap-1">
+              <button onClick={() => onSelect(layer.id)} className={`flex-1 text-left text-xs truncate ${active ? 'text-white font-semibold' : 'text-slate-300'}`}>
+                {layer.name}
+              </button>
+              <button onClick={() => onChange(layer.id, { visible: !layer.visible })} title={layer.visible ? 'Hide' : 'Show'} className={toggleClass(layer.visible)}>
+                👁
+              </button>
+              <button onClick={() => onChange(layer.id, { locked: !layer.locked })} title={layer.locked ? 'Unlock' : 'Lock'} className={toggleClass(layer.locked)}>
+                🔒
+              </button>
+              <button
+                onClick={() => onChange(layer.id, { sendToCoach: !layer.sendToCoach })}
+                title={layer.sendToCoach ? 'Coach sees this layer' : 'Hidden from the coach'}
+                className={toggleClass(layer.sendToCoach)}
+              >
+                AI
+              </button>
+            </div>
+            {active && (
+              <input
+                type="range"
+                min="0"
+                max="100"
+                value={Math.round(layer.opacity * 100)}
+                onChange={(e) => onChange(layer.id, { opacity: parseInt(e.target.value) / 100 })}
+                title={`Opacity ${Math.round(layer.opacity * 100)}%`}
+                className="w-full mt-1"
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default LayerPanel;
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { Lesson, LessonStep } from '../types';
+import { FOCUS_AREAS, LESSON_REFERENCE_MAX_DIMENSION } from '../constants';
+import { LESSON_LIMITS, validateLesson } from '../services/lessonLibrary';
+import { loadImageAsJpeg } from '../services/gesturePractice';
+
+interface LessonEditorProps {
+  lesson: Lesson;
+  // False while writing a new lesson that hasn't been saved yet.
+  saved: boolean;
+  // Why the last save failed, e.g. browser storage is full.
+  error: string | null;
+  onSave: (lesson: Lesson) => void;
+  onExport: (lesson: Lesson) => void;
+  onDelete: (lesson: Lesson) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/60';
+const labelClass = 'block text-[10px] font-semibold text-slate-400 uppercase tracking-widest mb-1.5';
+const buttonClass = 'px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded-lg text-xs font-medium transition-colors';
+
+const LessonEditor: React.FC<LessonEditorProps> = ({ lesson, saved, error, onSave, onExport, onDelete, onClose }) => {
+  const [draft, setDraft] = useState<Lesson>(lesson);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loadingImages, setLoadingImages] = useState(false);
+  const references = draft.references ?? [];
+
+  const updateStep = (index: number, changes: Partial<LessonStep>) =>
+    setDraft(d => ({ ...d, steps: d.steps.map((s, i) => i === index ? { ...s, ...changes } : s) }));
+
+  const moveStep = (index: number, by: number) => setDraft(d => {
+    const steps = [...d.steps];
+    [steps[index], steps[index + by]] = [steps[index + by], steps[index]];
+    return { ...d, steps };
+  });
+
+  const addStep = () => setDraft(d => ({
+    ...d,
+    steps: [...d.steps, { id: `step-${crypto.randomUUID().slice(0, 8)}`, title: '', instruction: '', completion: { type: 'manual' } }]
+  }));
+
+  const addReferences = async (files: FileList) => {
+    const room = LESSON_LIMITS.references - references.length;
+    const picked = Array.from(files).filter(f => f.type.startsWith('image/')).slice(0, room);
+    setLoadingImages(true);
+    const added = await Promise.all(picked.map(async file => {
+      const url = URL.createObjectURL(file);
+      try {
+        return { name: file.name, image: await loadImageAsJpeg(url, LESSON_REFERENCE_MAX_DIMENSION) };
+      } catch (err) {
+        console.error(`Failed to load ${file.name}:`, err);
+        return null;
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    }));
+    setLoadingImages(false);
+    const loaded = added.filter((ref): ref is NonNullable<typeof ref> => !!ref);
+    setDraft(d => ({ ...d, references: [...(d.references ?? []), ...loaded].slice(0, LESSON_LIMITS.references) }));
+  };
+
+  const validate = () => {
+    const result = validateLesson(draft);
+    setErrors(result.errors);
+    return result.lesson;
+  };
+
+  const handleSave = () => {
+    const valid = validate();
+    if (valid) onSave(valid);
+  };
+
+  const handleExport = () => {
+    const valid = validate();
+    if (valid) onExport(valid);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-2xl max-h-[90vh] bg-slate-900 rounded-2xl border border-slate-800 shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <span className="text-xs font-semibold text-slate-400 uppercase tracking-widest">{saved ? 'Edit Lesson' : 'New Lesson'}</span>
+          <button onClick={onClose} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded text-xs font-medium transition-colors">
+            Cancel
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-5 custom-scrollbar">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <label className={labelClass}>Title</label>
+              <input
+                value={draft.title}
+                maxLength={LESSON_LIMITS.title}
+                onChange={e => setDraft({ ...draft, title: e.target.value })}
+                placeholder="Drawing Hands"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Focus</label>
+              <select value={draft.focus} onChange={e => setDraft({ ...draft, focus: e.target.value as Lesson['focus'] })} className={inputClass}>
+                {FOCUS_AREAS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Description</label>
+            <input
+              value={draft.description}
+              maxLength={LESSON_LIMITS.description}
+              onChange={e => setDraft({ ...draft, description: e.target.value })}
+              placeholder="One line shown in the lesson library"
+              className={inputClass}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Coach Instructions</label>
+            <textarea
+              value={draft.coachInstructions ?? ''}
+              maxLength={LESSON_LIMITS.coachInstructions}
+              onChange={e => setDraft({ ...draft, coachInstructions: e.target.value })}
+              placeholder="What the coach should watch for and how strict to be, e.g. 'Insist on boxing out the palm before any fingers.'"
+              rows={3}
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+
+          <div>
+            <label className={labelClass}>Reference Images ({references.length}/{LESSON_LIMITS.references})</label>
+            <div className="flex flex-wrap gap-2">
+              {references.map((ref, i) => (
+                <div key={i} className="relative group">
+                  <img src={`data:image/jpeg;base64,${ref.image}`} alt={ref.name} title={ref.name} className="w-16 h-16 rounded-lg object-cover border border-slate-800" />
+                  <button
+                    onClick={() => setDraft(d => ({ ...d, references: references.filter((_, j) => j !== i) }))}
+                    className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-slate-800 text-slate-300 hover:bg-red-500 hover:text-white text-xs hidden group-hover:block"
+                    title="Remove image"
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+              {references.length < LESSON_LIMITS.references && (
+                <label className="w-16 h-16 rounded-lg border border-dashed border-slate-700 flex items-center justify-center text-slate-500 hover:text-slate-300 hover:border-slate-500 cursor-pointer text-xl">
+                  {loadingImages ? '…' : '+'}
+                  <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    className="hidden"
+                    onChange={e => {
+                      if (e.target.files?.length) addReferences(e.target.files);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClass}>Steps</label>
+            <div className="space-y-3">
+              {draft.steps.map((step, i) => (
+                <div key={step.id} className="p-3 bg-slate-800/30 rounded-xl border border-slate-800 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <span className="text-[10px] font-bold text-indigo-400 font-mono w-5">{i + 1}</span>
+                    <input
+                      value={step.title}
+                      maxLength={LESSON_LIMITS.title}
+                      onChange={e => updateStep(i, { title: e.target.value })}
+                      placeholder="Step title"
+                      className={inputClass}
+                    />
+                    <button onClick={() => moveStep(i, -1)} disabled={i === 0} className="px-1.5 text-slate-500 hover:text-slate-200 disabled:opacity-30" title="Move up">↑</button>
+                    <button onClick={() => moveStep(i, 1)} disabled={i === draft.steps.length - 1} className="px-1.5 text-slate-500 hover:text-slate-200 disabled:opacity-30" title="Move down">↓</button>
+                    <button
+                      onClick={() => setDraft(d => ({ ...d, steps: d.steps.filter((_, j) => j !== i) }))}
+                      disabled={draft.steps.length === 1}
+                      className="px-1.5 text-slate-500 hover:text-red-400 disabled:opacity-30"
+                      title="Remove step"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <textarea
+                    value={step.instruction}
+                    maxLength={LESSON_LIMITS.instruction}
+                    onChange={e => updateStep(i, { instruction: e.target.value })}
+                    placeholder="Instruction the coach reads out to the student"
+                    rows={2}
+                    className={`${inputClass} resize-none`}
+                  />
+                  <div className="flex items-center gap-3 text-[11px] text-slate-400">
+                    <select
+                      value={step.completion.type}
+                      onChange={e => updateStep(i, {
+                        completion: e.target.value === 'strokes' ? { type: 'strokes', count: 10 } : { type: 'manual' }
+                      })}
+                      className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-[11px] text-slate-200"
+                    >
+                      <option value="manual">Done when the student presses Next</option>
+                      <option value="strokes">Done after a number of strokes</option>
+                    </select>
+                    {step.completion.type === 'strokes' && (
+                      <input
+                        type="number"
+                        min={1}
+                        max={LESSON_LIMITS.strokeCount}
+                        value={step.completion.count}
+                        onChange={e => updateStep(i, { completion: { type: 'strokes', count: Math.round(Number(e.target.value)) } })}
+                        className="w-16 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-[11px] text-slate-200"
+                      />
+                    )}
+                    <span className="ml-auto">Time limit</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={LESSON_LIMITS.timeLimitSec}
+                      value={step.timeLimitSec ?? ''}
+                      placeholder="none"
+                      onChange={e => updateStep(i, { timeLimitSec: Number(e.target.value) > 0 ? Math.round(Number(e.target.value)) : undefined })}
+                      className="w-16 bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-[11px] text-slate-200"
+                    />
+                    <span>s</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+            <button onClick={addStep} disabled={draft.steps.length >= LESSON_LIMITS.steps} className={`${buttonClass} mt-3`}>
+              Add Step
+            </button>
+          </div>
+
+          {error && <p className="text-xs text-red-300">{error}</p>}
+          {errors.length > 0 && (
+            <ul className="p-3 bg-red-500/10 rounded-xl border border-red-500/30 text-xs text-red-300 space-y-1 list-disc list-inside">
+              {errors.map((error, i) => <li key={i}>{error}</li>)}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex items-center gap-2">
+          {saved && (
+            <button onClick={() => onDelete(lesson)} className={`${buttonClass} text-red-300`}>Delete</button>
+          )}
+          <button onClick={handleExport} className={buttonClass}>Export JSON</button>
+          <button
+            onClick={handleSave}
+            disabled={loadingImages}
+            className="ml-auto px-5 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 rounded-lg text-xs font-bold transition-colors"
+          >
+            Save Lesson
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LessonEditor;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { Lesson, LessonReference, LessonRunState, TrackingMode } from '../types';
+import { currentStep, stepTimeRemaining, stepStrokesDrawn } from '../services/curriculum';
+
+interface LessonRunnerProps {
+  lesson: Lesson;
+  run: LessonRunState | null;
+  now: number;
+  // Strokes drawn since the app started; see stepStrokesDrawn.
+  drawnCount: number;
+  trackingMode: TrackingMode;
+  onBegin: () => void;
+  onNext: () => void;
+  onPrev: () => void;
+  onUseReference: (reference: LessonReference) => void;
+}
+
+const References: React.FC<{ lesson: Lesson; onUse: (reference: LessonReference) => void }> = ({ lesson, onUse }) => {
+  if (!lesson.references?.length) return null;
+  return (
+    <div className="flex gap-1.5 shrink-0">
+      {lesson.references.map((ref, i) => (
+        <button key={i} onClick={() => onUse(ref)} title={`${ref.name}: compare your drawing against it`}>
+          <img src={`data:image/jpeg;base64,${ref.image}`} alt={ref.name} className="w-9 h-9 rounded-lg object-cover border border-slate-700 hover:border-indigo-500" />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+const LessonRunner: React.FC<LessonRunnerProps> = ({
+  lesson, run, now, drawnCount, trackingMode, onBegin, onNext, onPrev, onUseReference
+}) => {
+  const buttonClass = 'px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-colors';
+
+  if (!run || run.lessonId !== lesson.id) {
+    return (
+      <div className="bg-slate-900 p-4 rounded-2xl border border-slate-800 flex items-center justify-between gap-4">
+        <p className="text-xs text-slate-400 flex-1">
+          {lesson.steps.length} steps · {lesson.steps.map(s => s.title).join(' → ')}
+        </p>
+        <References lesson={lesson} onUse={onUseReference} />
+        <button onClick={onBegin} className={`${buttonClass} bg-indigo-600 hover:bg-indigo-500 text-white`}>
+          Begin Lesson
+        </button>
+      </div>
+    );
+  }
+
+  const step = currentStep(lesson, run);
+  if (!step) {
+    return (
+      <div className="bg-slate-900 p-4 rounded-2xl border border-green-500/30 flex items-center justify-between gap-4">
+        <p className="text-xs text-green-300 font-medium">Lesson complete! Every step of "{lesson.title}" is done.</p>
+        <button onClick={onBegin} className={buttonClass}>Restart</button>
+      </div>
+    );
+  }
+
+  const remaining = stepTimeRemaining(step, run, now);
+  const drawn = stepStrokesDrawn(run, drawnCount);
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-2xl border border-slate-800 flex flex-col sm:flex-row sm:items-center gap-4">
+      <div className="flex gap-1">
+        {lesson.steps.map((s, i) => (
+          <div
+            key={s.id}
+            className={`w-2 h-2 rounded-full ${i < run.stepIndex ? 'bg-green-500' : i === run.stepIndex ? 'bg-indigo-400' : 'bg-slate-700'}`}
+          />
+        ))}
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-[10px] text-indigo-400 font-bold uppercase tracking-widest">
+          Step {run.stepIndex + 1} of {lesson.steps.length} · {step.title}
+        </p>
+        <p className="text-xs text-slate-300 mt-1">{step.instruction}</p>
+        {step.completion.type === 'strokes' && trackingMode === 'digital' && (
+          <p className="text-[10px] text-slate-500 mt-1 font-mono">
+            {Math.min(drawn, step.completion.count)} / {step.completion.count} strokes
+          </p>
+        )}
+      </div>
+      <References lesson={lesson} onUse={onUseReference} />
+      {remaining !== null && (
+        <span className={`text-lg font-mono font-bold ${remaining <= 5 ? 'text-red-400' : 'text-slate-200'}`}>
+          {Math.ceil(remaining)}s
+        </span>
+      )}
+      <div className="flex gap-2">
+        <button onClick={onPrev} disabled={run.stepIndex === 0} className={buttonClass}>Back</button>
+        <button onClick={onNext} className={buttonClass}>
+          {run.stepIndex === lesson.steps.length - 1 ? 'Finish' : 'Next'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default LessonRunner;
@@ -0,0 +1,53 @@
+import React from 'react';
+
+export type MicMode = 'open' | 'push-to-talk' | 'muted';
+
+interface MicControlProps {
+  mode: MicMode;
+  speaking: boolean;
+  pushing: boolean;
+  onModeChange: (mode: MicMode) => void;
+  onPushChange: (pushing: boolean) => void;
+}
+
+const MODES: { id: MicMode; label: string }[] = [
+  { id: 'open', label: 'Open Mic' },
+  { id: 'push-to-talk', label: 'Push to Talk' },
+  { id: 'muted', label: 'Muted' }
+];
+
+const MicControl: React.FC<MicControlProps> = ({ mode, speaking, pushing, onModeChange, onPushChange }) => (
+  <div className="p-3 bg-slate-800/50 rounded-xl border border-slate-700 space-y-2">
+    <div className="flex items-center justify-between">
+      <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest">Microphone</span>
+      <span className={`w-2 h-2 rounded-full transition-colors ${speaking ? 'bg-green-400' : 'bg-slate-600'}`} title={speaking ? 'Sending your voice' : 'Not sending'} />
+    </div>
+    <div className="flex p-0.5 bg-slate-950 rounded-lg border border-slate-800">
+      {MODES.map(m => (
+        <button
+          key={m.id}
+          onClick={() => onModeChange(m.id)}
+          className={`flex-1 py-1 rounded-md text-[10px] font-bold transition-all ${
+            mode === m.id ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+          }`}
+        >
+          {m.label}
+        </button>
+      ))}
+    </div>
+    {mode === 'push-to-talk' && (
+      <button
+        onPointerDown={() => onPushChange(true)}
+        onPointerUp={() => onPushChange(false)}
+        onPointerLeave={() => pushing && onPushChange(false)}
+        className={`w-full py-2 rounded-lg text-[10px] font-bold uppercase tracking-wider transition-colors select-none ${
+          pushing ? 'bg-green-500/20 text-green-300 border border-green-500/40' : 'bg-slate-800 text-slate-400 border border-slate-700'
+        }`}
+      >
+        {pushing ? 'Talking…' : 'Hold to Talk (or hold Space)'}
+      </button>
+    )}
+  </div>
+);
+
+export default MicControl;
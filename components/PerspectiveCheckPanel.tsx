@@ -0,0 +1,44 @@
+import React from 'react';
+import { PerspectiveReport } from '../types';
+import { PERSPECTIVE_TOLERANCE_DEG } from '../services/perspectiveGuides';
+
+interface PerspectiveCheckPanelProps {
+  report: PerspectiveReport | null;
+}
+
+const errorTone = (deg: number) => deg <= PERSPECTIVE_TOLERANCE_DEG ? 'text-green-400' : deg <= PERSPECTIVE_TOLERANCE_DEG * 2 ? 'text-amber-300' : 'text-red-400';
+
+const PerspectiveCheckPanel: React.FC<PerspectiveCheckPanelProps> = ({ report }) => {
+  if (!report) return null;
+
+  return (
+    <div className="w-52 bg-slate-900/80 backdrop-blur-sm p-3 rounded-lg border border-slate-700 space-y-2">
+      <div className="flex justify-between items-baseline">
+        <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest">Perspective</span>
+        {report.checkedStrokes > 0 && (
+          <span className={`text-sm font-bold font-mono ${errorTone(report.averageErrorDeg)}`}>
+            {report.averageErrorDeg.toFixed(1)}°
+          </span>
+        )}
+      </div>
+      {report.checkedStrokes === 0 ? (
+        <p className="text-[10px] text-slate-500">Draw straight lines towards the vanishing points to check them.</p>
+      ) : (
+        <>
+          {report.targets.map(t => (
+            <div key={t.target} className="flex justify-between text-[10px] text-slate-400 font-mono">
+              <span>{t.target} · {t.strokes}</span>
+              <span className={errorTone(t.averageErrorDeg)}>{t.averageErrorDeg.toFixed(1)}°</span>
+            </div>
+          ))}
+          <div className="flex justify-between text-[9px] text-slate-500 pt-1 font-mono">
+            <span>{Math.round(report.withinTolerance * 100)}% within {PERSPECTIVE_TOLERANCE_DEG}°</span>
+            {report.worst && <span>worst {report.worst.errorDeg.toFixed(1)}°</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PerspectiveCheckPanel;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { Lesson, ProgressEntry } from '../types';
+import { formatPracticeTime, practiceStats, skillTrends, suggestNextLesson } from '../services/progress';
+
+interface ProgressDashboardProps {
+  entries: ProgressEntry[];
+  lessons: Lesson[];
+  completedLessons: string[];
+  onSelectLesson: (lesson: Lesson) => void;
+  onClose: () => void;
+}
+
+const SPARK_WIDTH = 160;
+const SPARK_HEIGHT = 32;
+
+const Sparkline: React.FC<{ scores: number[] }> = ({ scores }) => {
+  if (scores.length === 0) return <div style={{ width: SPARK_WIDTH, height: SPARK_HEIGHT }} />;
+  const step = scores.length > 1 ? SPARK_WIDTH / (scores.length - 1) : 0;
+  const points = scores.map((s, i) => `${i * step},${SPARK_HEIGHT - (s / 100) * SPARK_HEIGHT}`).join(' ');
+  const last = scores[scores.length - 1];
+  return (
+    <svg width={SPARK_WIDTH} height={SPARK_HEIGHT} className="overflow-visible">
+      <line x1={0} y1={SPARK_HEIGHT / 2} x2={SPARK_WIDTH} y2={SPARK_HEIGHT / 2} stroke="#334155" strokeDasharray="2 3" />
+      {scores.length > 1 && <polyline points={points} fill="none" stroke="#818cf8" strokeWidth={2} strokeLinejoin="round" />}
+      <circle cx={(scores.length - 1) * step} cy={SPARK_HEIGHT - (last / 100) * SPARK_HEIGHT} r={3} fill="#a5b4fc" />
+    </svg>
+  );
+};
+
+const Stat: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="bg-slate-800/50 rounded-xl border border-slate-700 p-3">
+    <p className="text-[10px] text-slate-500 uppercase tracking-widest">{label}</p>
+    <p className="text-lg font-bold text-slate-100 mt-1">{value}</p>
+  </div>
+);
+
+const ProgressDashboard: React.FC<ProgressDashboardProps> = ({ entries, lessons, completedLessons, onSelectLesson, onClose }) => {
+  const stats = practiceStats(entries);
+  const trends = skillTrends(entries);
+  const suggestion = suggestNextLesson(lessons, completedLessons, entries);
+  const days = (n: number) => `${n} ${n === 1 ? 'day' : 'days'}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl max-h-[85vh] bg-slate-900 rounded-2xl border border-slate-800 shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <span className="text-xs font-semibold text-slate-400 uppercase tracking-widest">Your Progress</span>
+          <button onClick={onClose} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded text-xs font-medium transition-colors">
+            Close
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            <Stat label="Practice" value={formatPracticeTime(stats.totalMs)} />
+            <Stat label="Last 7 Days" value={formatPracticeTime(stats.last7DaysMs)} />
+            <Stat label="Sessions" value={String(stats.sessions)} />
+            <Stat label="Streak" value={days(stats.currentStreak)} />
+            <Stat label="Best Streak" value={days(stats.longestStreak)} />
+          </div>
+
+          {suggestion && (
+            <div className="flex items-center justify-between gap-4 p-4 bg-indigo-500/10 rounded-xl border border-indigo-500/30">
+              <div>
+                <p className="text-[10px] text-indigo-400 font-bold uppercase tracking-widest">Up Next</p>
+                <p className="text-sm font-semibold text-slate-100 mt-1">{suggestion.lesson.title}</p>
+                <p className="text-[11px] text-slate-400">{suggestion.reason}</p>
+              </div>
+              <button
+                onClick={() => onSelectLesson(suggestion.lesson)}
+                className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 rounded-xl text-xs font-bold transition-colors shrink-0"
+              >
+                Go to Lesson
+              </button>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest mb-3">Skills</h3>
+            {entries.length === 0 && (
+              <p className="text-xs text-slate-500 mb-3">Finish a coaching session to start tracking your skills.</p>
+            )}
+            <div className="space-y-2">
+              {trends.map(trend => (
+                <div key={trend.focus} className="flex items-center gap-4 p-3 bg-slate-800/30 rounded-xl border border-slate-800">
+                  <span className="w-32 text-xs font-medium text-slate-300">{trend.label}</span>
+                  <Sparkline scores={trend.history.map(h => h.score)} />
+                  <span className="flex-1 text-right text-lg font-bold text-slate-100">{trend.recent ?? '–'}</span>
+                  <span className={`w-12 text-right text-xs font-mono ${
+                    trend.change === null ? 'text-slate-600' : trend.change > 0 ? 'text-green-400' : trend.change < 0 ? 'text-red-400' : 'text-slate-400'
+                  }`}>
+                    {trend.change === null ? '' : `${trend.change > 0 ? '+' : ''}${trend.change}`}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-600 mt-3">
+              Scores combine the coach's end-of-session assessment with line confidence and perspective accuracy measured on this device.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProgressDashboard;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { ReferenceImage, ReferenceLayout, ReferenceSettings, ReferenceView } from '../types';
+
+interface ReferenceControlsProps {
+  reference: ReferenceImage | null;
+  settings: ReferenceSettings;
+  // The local onion-skin and difference views only exist over the digital canvas.
+  showViews: boolean;
+  onLoad: (file: File) => void;
+  onRemove: () => void;
+  onChange: (settings: ReferenceSettings) => void;
+}
+
+const LAYOUTS: { id: ReferenceLayout; label: string; title: string }[] = [
+  { id: 'side-by-side', label: 'Side by Side', title: 'The coach sees the reference next to your drawing' },
+  { id: 'overlay', label: 'Overlay', title: 'The coach sees the reference faded over your drawing' }
+];
+
+const VIEWS: { id: ReferenceView; label: string }[] = [
+  { id: 'hidden', label: 'Hide' },
+  { id: 'onion-skin', label: 'Onion' },
+  { id: 'difference', label: 'Diff' }
+];
+
+const ReferenceControls: React.FC<ReferenceControlsProps> = ({ reference, settings, showViews, onLoad, onRemove, onChange }) => {
+  const buttonClass = (active: boolean) => `px-2 py-1 rounded-md text-[10px] font-bold transition-all ${
+    active ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+  }`;
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onLoad(file);
+    e.target.value = '';
+  };
+
+  if (!reference) {
+    return (
+      <label className="px-4 py-2 rounded-xl text-xs font-bold border text-slate-400 border-slate-800 hover:text-slate-200 transition-all cursor-pointer">
+        Load Reference
+        <input type="file" accept="image/*" className="hidden" onChange={handleFile} />
+      </label>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2 p-1 bg-slate-950 rounded-xl border border-slate-800">
+      <img src={reference.url} alt={reference.name} title={reference.name} className="w-8 h-8 rounded-lg object-cover" />
+      <div className="flex">
+        {LAYOUTS.map(l => (
+          <button key={l.id} onClick={() => onChange({ ...settings, layout: l.id })} className={buttonClass(settings.layout === l.id)} title={l.title}>
+            {l.label}
+          </button>
+        ))}
+      </div>
+      {showViews && (
+        <>
+          <span className="w-px h-4 bg-slate-800" />
+          <div className="flex">
+            {VIEWS.map(v => (
+              <button key={v.id} onClick={() => onChange({ ...settings, view: v.id })} className={buttonClass(settings.view === v.id)}>
+                {v.label}
+              </button>
+            ))}
+          </div>
+          {settings.view === 'onion-skin' && (
+            <input
+              type="range"
+              min={0.1}
+              max={0.9}
+              step={0.05}
+              value={settings.opacity}
+              onChange={e => onChange({ ...settings, opacity: Number(e.target.value) })}
+              className="w-20 accent-indigo-500"
+              title="Onion-skin opacity"
+            />
+          )}
+        </>
+      )}
+      <button onClick={onRemove} className="px-2 text-slate-500 hover:text-white text-sm" title="Remove reference">×</button>
+    </div>
+  );
+};
+
+export default ReferenceControls;
@@ -0,0 +1,24 @@
+import React from 'react';
+import { ReferenceImage, ReferenceSettings } from '../types';
+
+interface ReferenceOverlayProps {
+  reference: ReferenceImage;
+  settings: ReferenceSettings;
+}
+
+// Local-only view of the reference over the canvas. Difference blending turns matching
+// areas dark, so drifting proportions light up; object-contain matches the coach's overlay.
+const ReferenceOverlay: React.FC<ReferenceOverlayProps> = ({ reference, settings }) => {
+  if (settings.view === 'hidden') return null;
+  const difference = settings.view === 'difference';
+  return (
+    <img
+      src={reference.url}
+      alt=""
+      className={`absolute inset-0 w-full h-full object-contain pointer-events-none z-[3] rounded-xl ${difference ? 'mix-blend-difference' : ''}`}
+      style={{ opacity: difference ? 1 : settings.opacity }}
+    />
+  );
+};
+
+export default ReferenceOverlay;
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from 'react';
+import { SavedSession } from '../types';
+import { listSessions, deleteSession } from '../services/sessionStore';
+
+interface SessionHistoryProps {
+  // A session changed elsewhere since the list was loaded, e.g. its report was just written.
+  updated: SavedSession | null;
+  onClose: () => void;
+  onOpenReport: (session: SavedSession) => void;
+}
+
+const formatDate = (ts: number) => new Date(ts).toLocaleString(undefined, {
+  month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit'
+});
+
+const formatDuration = (ms: number) => {
+  const minutes = Math.floor(ms / 60000);
+  const seconds = Math.floor((ms % 60000) / 1000);
+  return `${minutes}m ${seconds.toString().padStart(2, '0')}s`;
+};
+
+const SessionDetail: React.FC<{ session: SavedSession }> = ({ session }) => {
+  const frames = [
+    ...session.snapshots,
+    ...(session.finalArtwork ? [{ timestamp: session.endedAt, image: session.finalArtwork }] : [])
+  ];
+  const [frameIndex, setFrameIndex] = useState(frames.length - 1);
+  const frame = frames[frameIndex];
+
+  return (
+    <div className="flex-1 flex flex-col lg:flex-row gap-4 min-h-0">
+      <div className="lg:w-1/2 flex flex-col gap-2">
+        <div className="flex-1 bg-black rounded-xl border border-slate-800 overflow-hidden flex items-center justify-center min-h-[200px]">
+          {frame ? (
+            <img src={`data:image/jpeg;base64,${frame.image}`} alt="Session artwork" className="max-w-full max-h-full object-contain" />
+          ) : (
+            <p className="text-xs text-slate-600">No artwork was captured.</p>
+          )}
+        </div>
+        {frames.length > 1 && (
+          <div className="flex items-center gap-3">
+            <input
+              type="range"
+              min={0}
+              max={frames.length - 1}
+              value={frameIndex}
+              onChange={(e) => setFrameIndex(parseInt(e.target.value))}
+              className="flex-1"
+            />
+            <span className="text-[10px] font-mono text-slate-500 w-16 text-right">
+              {formatDuration(frame.timestamp - session.startedAt)}
+            </span>
+          </div>
+        )}
+      </div>
+      <div className="flex-1 overflow-y-auto space-y-3 custom-scrollbar pr-2">
+        {session.transcript.length === 0 ? (
+          <p className="text-xs text-slate-600">No conversation was recorded.</p>
+        ) : (
+          session.transcript.map((t, i) => (
+            <div key={i} className={`flex flex-col ${t.type === 'user' ? 'items-end' : 'items-start'}`}>
+              <div className={`max-w-[90%] rounded-2xl px-4 py-2 text-xs leading-relaxed ${
+                t.type === 'user'
+                  ? 'bg-slate-800 text-slate-300 rounded-tr-none border border-slate-700'
+                  : 'bg-indigo-900/40 text-indigo-100 rounded-tl-none border border-indigo-500/20'
+              }`}>
+                {t.text}
+              </div>
+              <span className="text-[9px] font-mono text-slate-600 mt-1">
+                {formatDuration(t.timestamp - session.startedAt)}
+              </span>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ updated, onClose, onOpenReport }) => {
+  const [sessions, setSessions] = useState<SavedSession[] | null>(null);
+  const [selected, setSelected] = useState<SavedSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    listSessions()
+      .then(setSessions)
+      .catch(err => {
+        console.error('Failed to load sessions:', err);
+        setError('Your sessions could not be loaded. Browser storage may be blocked or full; reload the page to try again.');
+        setSessions([]);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!updated) return;
+    setSessions(prev => prev?.map(s => s.id === updated.id ? updated : s) ?? null);
+    setSelected(prev => prev?.id === updated.id ? updated : prev);
+  }, [updated]);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSession(id);
+    } catch (err) {
+      console.error('Failed to delete session:', err);
+      setError('The session could not be deleted. Try again, or reload the page.');
+      return;
+    }
+    setError(null);
+    setSessions(prev => prev?.filter(s => s.id !== id) ?? null);
+    if (selected?.id === id) setSelected(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-5xl h-full max-h-[85vh] bg-slate-900 rounded-2xl border border-slate-800 shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <div className="flex items-center gap-3">
+            {selected && (
+              <button onClick={() => setSelected(null)} className="text-xs text-slate-400 hover:text-slate-200">
+                ← Back
+              </button>
+            )}
+            <span className="text-xs font-semibold text-slate-400 uppercase tracking-widest">
+              {selected ? selected.lessonTitle : 'Session History'}
+            </span>
+          </div>
+          <div className="flex gap-2">
+            {selected && (
+              <button
+                onClick={() => onOpenReport(selected)}
+                className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 rounded text-xs font-medium transition-colors"
+              >
+                {selected.report ? 'View Report' : 'Write Report'}
+              </button>
+            )}
+            <button onClick={onClose} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded text-xs font-medium transition-colors">
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 p-4 flex flex-col min-h-0">
+          {error && <p className="mb-3 text-xs text-red-300">{error}</p>}
+          {selected ? (
+            <SessionDetail session={selected} />
+          ) : sessions === null ? (
+            <div className="flex-1 flex items-center justify-center">
+              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+            </div>
+          ) : sessions.length === 0 ? (
+            !error && (
+              <div className="flex-1 flex items-center justify-center text-xs text-slate-600">
+                Your finished coaching sessions will appear here.
+              </div>
+            )
+          ) : (
+            <div className="flex-1 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3 content-start custom-scrollbar">
+              {sessions.map(session => (
+                <div key={session.id} className="bg-slate-800/50 rounded-xl border border-slate-700 overflow-hidden flex flex-col">
+                  <button onClick={() => setSelected(session)} className="text-left hover:bg-slate-800 transition-colors">
+                    <div className="h-32 bg-black flex items-center justify-center">
+                      {session.finalArtwork ? (
+                        <img src={`data:image/jpeg;base64,${session.finalArtwork}`} alt="" className="max-h-full max-w-full object-contain" />
+                      ) : (
+                        <span className="text-[10px] text-slate-600">No artwork</span>
+                      )}
+                    </div>
+                    <div className="p-3">
+                      <h3 className="text-sm font-medium text-slate-200">{session.lessonTitle}</h3>
+                      <p className="text-[10px] text-slate-500 mt-1">
+                        {formatDate(session.startedAt)} · {formatDuration(session.endedAt - session.startedAt)} · {session.trackingMode === 'digital' ? 'Digital Studio' : 'Sketchbook'}
+                      </p>
+                    </div>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(session.id)}
+                    className="text-[10px] text-slate-500 hover:text-red-400 py-2 border-t border-slate-700 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,143 @@
+import React from 'react';
+import { SavedSession } from '../types';
+import { FOCUS_AREAS } from '../constants';
+import { groupMistakesByFocus, printReportHtml, reportToHtml, reportToMarkdown } from '../services/sessionReport';
+import { downloadText, slugify } from '../services/download';
+
+interface SessionReportViewProps {
+  // The report is written while session.report is still missing.
+  session: SavedSession;
+  error: string | null;
+  onRetry: () => void;
+  onClose: () => void;
+}
+
+const formatClock = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const SectionTitle: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest mb-2">{children}</h3>
+);
+
+const SessionReportView: React.FC<SessionReportViewProps> = ({ session, error, onRetry, onClose }) => {
+  const { report } = session;
+  const filename = `${slugify(session.lessonTitle)}-${new Date(session.startedAt).toISOString().slice(0, 10)}-report`;
+  const exportButtonClass = 'px-3 py-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded text-xs font-medium transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-3xl h-full max-h-[85vh] bg-slate-900 rounded-2xl border border-slate-800 shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center gap-3">
+          <span className="text-xs font-semibold text-slate-400 uppercase tracking-widest truncate">
+            Session Report · {session.lessonTitle}
+          </span>
+          <div className="flex gap-2 shrink-0">
+            <button
+              disabled={!report}
+              onClick={() => report && downloadText(reportToMarkdown(session, report), `${filename}.md`, 'text/markdown')}
+              className={exportButtonClass}
+            >
+              Markdown
+            </button>
+            <button
+              disabled={!report}
+              onClick={() => report && downloadText(reportToHtml(session, report), `${filename}.html`, 'text/html')}
+              className={exportButtonClass}
+            >
+              HTML
+            </button>
+            <button
+              disabled={!report}
+              onClick={() => report && printReportHtml(reportToHtml(session, report))}
+              className={exportButtonClass}
+              title="Opens the print dialog; choose Save as PDF"
+            >
+              PDF
+            </button>
+            <button onClick={onClose} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded text-xs font-medium transition-colors">
+              Close
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar">
+          {error ? (
+            <div className="h-full flex flex-col items-center justify-center gap-3 text-center">
+              <p className="text-xs text-red-300">{error}</p>
+              <button onClick={onRetry} className={exportButtonClass}>Try Again</button>
+            </div>
+          ) : !report ? (
+            <div className="h-full flex flex-col items-center justify-center gap-3">
+              <div className="w-5 h-5 border-2 border-white/30 border-t-white rounded-full animate-spin" />
+              <p className="text-xs text-slate-500">Your coach is writing up the session...</p>
+            </div>
+          ) : (
+            <>
+              <p className="text-sm text-slate-200 leading-relaxed">{report.summary}</p>
+
+              <div>
+                <SectionTitle>Strengths</SectionTitle>
+                <ul className="space-y-1 text-xs text-green-200 list-disc pl-4">
+                  {report.strengths.length > 0 ? report.strengths.map((s, i) => <li key={i}>{s}</li>) : <li>None noted.</li>}
+                </ul>
+              </div>
+
+              <div>
+                <SectionTitle>Recurring Mistakes</SectionTitle>
+                {groupMistakesByFocus(report).map(group => (
+                  <div key={group.id} className="mb-3">
+                    <p className="text-[11px] font-bold text-indigo-300 mb-1">{group.label}</p>
+                    <ul className="space-y-1.5">
+                      {group.mistakes.map((m, i) => (
+                        <li key={i} className="text-xs text-slate-300">
+                          <span className="font-semibold text-amber-200">{m.issue}</span>
+                          <span className="text-slate-500 font-mono"> ×{m.occurrences}</span>
+                          <span className="text-slate-400"> — {m.fix}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+                {report.mistakes.length === 0 && <p className="text-xs text-slate-500">None noted.</p>}
+              </div>
+
+              <div>
+                <SectionTitle>Exercises for Next Time</SectionTitle>
+                <ol className="space-y-2 text-xs text-slate-300 list-decimal pl-4">
+                  {report.exercises.map((e, i) => (
+                    <li key={i}>
+                      <span className="font-semibold text-slate-100">{e.title}</span>
+                      <span className="text-[10px] text-indigo-400 ml-2">{FOCUS_AREAS.find(f => f.id === e.focus)?.label}</span>
+                      <p className="text-slate-400">{e.description}</p>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              {report.moments.length > 0 && (
+                <div>
+                  <SectionTitle>Key Moments</SectionTitle>
+                  <div className="grid grid-cols-2 gap-3">
+                    {report.moments.map((m, i) => (
+                      <figure key={i} className="bg-slate-950 rounded-xl border border-slate-800 overflow-hidden">
+                        <img src={`data:image/jpeg;base64,${m.image}`} alt={m.caption} className="w-full aspect-video object-contain bg-black" />
+                        <figcaption className="p-2 text-[11px] text-slate-300">
+                          <span className="font-mono text-slate-500 mr-2">{formatClock(m.timestamp - session.startedAt)}</span>
+                          {m.caption}
+                        </figcaption>
+                      </figure>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionReportView;
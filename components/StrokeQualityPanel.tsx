@@ -0,0 +1,46 @@
+import React from 'react';
+import { StrokeQualityReport } from '../types';
+import { LIFT_WINDOW_MS } from '../services/strokeAnalysis';
+
+interface StrokeQualityPanelProps {
+  report: StrokeQualityReport | null;
+}
+
+const Meter: React.FC<{ label: string; value: number; invert?: boolean }> = ({ label, value, invert }) => {
+  const good = invert ? 1 - value : value;
+  const tone = good >= 0.7 ? 'bg-green-500' : good >= 0.4 ? 'bg-amber-400' : 'bg-red-500';
+  return (
+    <div>
+      <div className="flex justify-between text-[9px] text-slate-400 mb-1">
+        <span>{label}</span>
+        <span className="font-mono">{Math.round(value * 100)}%</span>
+      </div>
+      <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+        <div className={`h-full ${tone} rounded-full transition-all`} style={{ width: `${Math.round(value * 100)}%` }} />
+      </div>
+    </div>
+  );
+};
+
+const StrokeQualityPanel: React.FC<StrokeQualityPanelProps> = ({ report }) => {
+  if (!report) return null;
+
+  return (
+    <div className="w-52 bg-slate-900/80 backdrop-blur-sm p-3 rounded-lg border border-slate-700 space-y-2">
+      <div className="flex justify-between items-baseline">
+        <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest">Line Confidence</span>
+        <span className="text-sm font-bold text-slate-100 font-mono">{report.confidence}</span>
+      </div>
+      <Meter label="Petting the line" value={report.pettingRate} invert />
+      <Meter label="Overlap" value={report.overlapRate} invert />
+      <Meter label="Speed consistency" value={report.speedConsistency} />
+      <Meter label="Curvature jitter" value={report.curvatureJitter} invert />
+      <div className="flex justify-between text-[9px] text-slate-500 pt-1 font-mono">
+        <span>avg {Math.round(report.averageLength)}px</span>
+        <span>{report.liftsInWindow} lifts / {LIFT_WINDOW_MS / 1000}s</span>
+      </div>
+    </div>
+  );
+};
+
+export default StrokeQualityPanel;
@@ -0,0 +1,151 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TIMELAPSE_SPEEDS } from '../constants';
+import { TimelapseCaption, TimelapseFrame, TimelapseInfo, exportTimelapse, timelapseLengthMs, timelapseMimeType } from '../services/timelapse';
+import { downloadBlob } from '../services/download';
+
+interface TimelapsePanelProps {
+  recording: boolean;
+  info: TimelapseInfo;
+  frames: TimelapseFrame[];
+  captions: TimelapseCaption[];
+  onToggleRecording: () => void;
+  onClear: () => void;
+  // A video was saved of the frames up to `lastFrameAt`.
+  onExported: (lastFrameAt: number) => void;
+  onClose: () => void;
+}
+
+const formatClock = (ms: number) => {
+  const total = Math.round(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+const TimelapsePanel: React.FC<TimelapsePanelProps> = ({ recording, info, frames, captions, onToggleRecording, onClear, onExported, onClose }) => {
+  const [speed, setSpeed] = useState(TIMELAPSE_SPEEDS[2]);
+  const [withCaptions, setWithCaptions] = useState(true);
+  const [progress, setProgress] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const mimeType = timelapseMimeType();
+  const exporting = progress !== null;
+
+  // Closing the panel cancels a running export
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setProgress(0);
+    const lastFrameAt = frames[frames.length - 1]?.timestamp ?? 0;
+    try {
+      const video = await exportTimelapse(frames, captions, {
+        speed,
+        captions: withCaptions,
+        onProgress: setProgress,
+        signal: controller.signal
+      });
+      const extension = video.type === 'video/mp4' ? 'mp4' : 'webm';
+      downloadBlob(video, `timelapse-${new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-')}.${extension}`);
+      onExported(lastFrameAt);
+    } catch (err) {
+      if (!(err instanceof DOMException && err.name === 'AbortError')) {
+        console.error('Timelapse export failed:', err);
+        setError(err instanceof Error ? err.message : 'The timelapse could not be exported.');
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  const buttonClass = 'px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 rounded-lg text-xs font-medium transition-colors';
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-950/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="w-full max-w-md bg-slate-900 rounded-2xl border border-slate-800 shadow-2xl flex flex-col overflow-hidden">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center">
+          <span className="text-xs font-semibold text-slate-400 uppercase tracking-widest">Timelapse</span>
+          <button onClick={onClose} className="px-3 py-1 bg-slate-800 hover:bg-slate-700 rounded text-xs font-medium transition-colors">
+            Close
+          </button>
+        </div>
+
+        <div className="p-6 space-y-5">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-sm font-semibold text-slate-100 flex items-center gap-2">
+                {recording && <span className="w-2 h-2 bg-red-500 rounded-full animate-pulse" />}
+                {recording ? 'Recording' : info.frames > 0 ? 'Recorded' : 'Not recording'}
+              </p>
+              <p className="text-[11px] text-slate-500 mt-1">
+                {info.frames} frames covering {formatClock(info.durationMs)} · {info.captions} coach captions
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button onClick={onToggleRecording} disabled={exporting} className={buttonClass}>
+                {recording ? 'Stop' : 'Record'}
+              </button>
+              <button onClick={onClear} disabled={exporting || info.frames === 0} className={buttonClass}>Clear</button>
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-500 -mt-3">Recording starts by itself with each coaching session.</p>
+
+          <div>
+            <p className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest mb-2">Speed</p>
+            <div className="flex p-0.5 bg-slate-950 rounded-lg border border-slate-800">
+              {TIMELAPSE_SPEEDS.map(s => (
+                <button
+                  key={s}
+                  onClick={() => setSpeed(s)}
+                  disabled={exporting}
+                  className={`flex-1 py-1 rounded-md text-[11px] font-bold transition-all ${
+                    speed === s ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+                  }`}
+                >
+                  {s}×
+                </button>
+              ))}
+            </div>
+            <p className="text-[10px] text-slate-500 mt-2">
+              Video length about {formatClock(timelapseLengthMs(info, speed))}. Exporting plays it through once, so it takes that long.
+            </p>
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-slate-300">
+            <input
+              type="checkbox"
+              checked={withCaptions}
+              disabled={exporting || info.captions === 0}
+              onChange={e => setWithCaptions(e.target.checked)}
+              className="accent-indigo-500"
+            />
+            Burn in the coach's words as captions
+          </label>
+
+          {exporting && (
+            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress! * 100)}%` }} />
+            </div>
+          )}
+          {error && <p className="text-xs text-red-300">{error}</p>}
+          {!mimeType && <p className="text-xs text-amber-300">This browser can't record video, so timelapses can't be exported here.</p>}
+
+          {exporting ? (
+            <button onClick={() => abortRef.current?.abort()} className={`${buttonClass} w-full py-2`}>Cancel Export</button>
+          ) : (
+            <button
+              onClick={handleExport}
+              disabled={!mimeType || info.frames === 0}
+              className="w-full py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 rounded-xl text-xs font-bold transition-colors"
+            >
+              Export Video
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelapsePanel;
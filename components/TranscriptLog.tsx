@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { StillCritique, TranscriptionItem } from '../types';
+import { FOCUS_AREAS } from '../constants';
+import { matchesSearch } from '../services/transcript';
+
+interface TranscriptLogProps {
+  items: TranscriptionItem[];
+  // Coach turns that drew annotations; their last entry offers "Show markup".
+  markupTurns: Set<number>;
+  onShowMarkup: (turn: number) => void;
+  onTogglePinned: (id: string) => void;
+}
+
+// Rough height of a row before it has been measured.
+const ESTIMATED_ROW_HEIGHT = 80;
+// Rows rendered above and below the viewport.
+const OVERSCAN_PX = 400;
+// Within this distance of the bottom the log follows new entries.
+const STICK_TO_BOTTOM_PX = 48;
+
+const formatTime = (ts: number) => new Date(ts).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const Highlighted: React.FC<{ text: string; query: string }> = ({ text, query }) => {
+  if (!query) return <>{text}</>;
+  const lower = text.toLowerCase();
+  const needle = query.toLowerCase();
+  const parts: React.ReactNode[] = [];
+  let from = 0;
+  for (let at = lower.indexOf(needle); at >= 0; at = lower.indexOf(needle, from)) {
+    parts.push(text.slice(from, at), <mark key={at} className="bg-amber-400/30 text-inherit rounded-sm">{text.slice(at, at + needle.length)}</mark>);
+    from = at + needle.length;
+  }
+  parts.push(text.slice(from));
+  return <>{parts}</>;
+};
+
+const CritiqueCard: React.FC<{ critique: StillCritique; query: string }> = ({ critique, query }) => (
+  <div className="space-y-2">
+    <p className="text-[9px] font-bold uppercase tracking-widest text-indigo-300">Written Critique</p>
+    {critique.summary && <p><Highlighted text={critique.summary} query={query} /></p>}
+    {critique.sections.map(section => (
+      <div key={section.focus}>
+        <p className="font-semibold text-indigo-200">{FOCUS_AREAS.find(f => f.id === section.focus)?.label ?? section.focus}</p>
+        <ul className="mt-0.5 space-y-0.5">
+          {section.strengths.map((strength, i) => (
+            <li key={`s${i}`} className="text-green-300/90">+ <Highlighted text={strength} query={query} /></li>
+          ))}
+          {section.issues.map((issue, i) => (
+            <li key={`i${i}`}>
+              <span className="text-amber-300/90">– <Highlighted text={issue.issue} query={query} /></span>{' '}
+              <span className="text-indigo-100/80"><Highlighted text={issue.fix} query={query} /></span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    ))}
+    {critique.nextStep && (
+      <p className="pt-1 border-t border-indigo-500/20">
+        <span className="font-semibold text-indigo-200">Next step: </span><Highlighted text={critique.nextStep} query={query} />
+      </p>
+    )}
+  </div>
+);
+
+// Only the rows near the viewport are mounted; row heights are measured as they render.
+const TranscriptLog: React.FC<TranscriptLogProps> = ({ items, markupTurns, onShowMarkup, onTogglePinned }) => {
+  const [query, setQuery] = useState('');
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [, setMeasured] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const heightsRef = useRef(new Map<string, number>());
+  const atBottomRef = useRef(true);
+  const rowObserverRef = useRef<ResizeObserver | null>(null);
+
+  const keyOf = (item: TranscriptionItem, index: number) => item.id ?? `row-${index}`;
+
+  const visible = useMemo(
+    () => items
+      .map((item, index) => ({ item, index }))
+      .filter(({ item }) => (!pinnedOnly || item.pinned) && matchesSearch(item, query)),
+    [items, query, pinnedOnly]
+  );
+
+  const offsets: number[] = [];
+  let totalHeight = 0;
+  visible.forEach(({ item, index }) => {
+    offsets.push(totalHeight);
+    totalHeight += heightsRef.current.get(keyOf(item, index)) ?? ESTIMATED_ROW_HEIGHT;
+  });
+
+  // First row that ends below the top of the overscanned window
+  const rowEnd = (i: number) => offsets[i] + (heightsRef.current.get(keyOf(visible[i].item, visible[i].index)) ?? ESTIMATED_ROW_HEIGHT);
+  let first = 0;
+  for (let hi = visible.length; first < hi;) {
+    const mid = (first + hi) >> 1;
+    if (rowEnd(mid) < scrollTop - OVERSCAN_PX) first = mid + 1;
+    else hi = mid;
+  }
+  let last = first;
+  while (last < visible.length && offsets[last] < scrollTop + viewportHeight + OVERSCAN_PX) last++;
+
+  useEffect(() => {
+    const scroller = scrollRef.current;
+    if (!scroller) return;
+    const viewportObserver = new ResizeObserver(([entry]) => setViewportHeight(entry.contentRect.height));
+    viewportObserver.observe(scroller);
+    return () => {
+      viewportObserver.disconnect();
+      rowObserverRef.current?.disconnect();
+    };
+  }, []);
+
+  // Rows mount before effects run, so the observer is created on first use
+  const observeRow = useCallback((el: HTMLDivElement | null) => {
+    if (!el) return;
+    rowObserverRef.current ??= new ResizeObserver(entries => {
+      let changed = false;
+      entries.forEach(({ target }) => {
+        const row = target as HTMLElement;
+        // Rows scrolled out of the window report zero; keep their last height
+        if (!row.isConnected) {
+          rowObserverRef.current?.unobserve(row);
+          return;
+        }
+        if (heightsRef.current.get(row.dataset.key!) !== row.offsetHeight) {
+          heightsRef.current.set(row.dataset.key!, row.offsetHeight);
+          changed = true;
+        }
+      });
+      if (changed) setMeasured(n => n + 1);
+    });
+    rowObserverRef.current.observe(el);
+  }, []);
+
+  // Follow the conversation while the reader is at the bottom
+  useLayoutEffect(() => {
+    const scroller = scrollRef.current;
+    if (scroller && atBottomRef.current) scroller.scrollTop = scroller.scrollHeight;
+  }, [totalHeight, visible.length]);
+
+  const handleScroll = () => {
+    const scroller = scrollRef.current!;
+    setScrollTop(scroller.scrollTop);
+    atBottomRef.current = scroller.scrollHeight - scroller.scrollTop - scroller.clientHeight < STICK_TO_BOTTOM_PX;
+  };
+
+  const pinnedCount = items.filter(t => t.pinned).length;
+
+  return (
+    <>
+      {items.length > 0 && (
+        <div className="px-4 py-2 border-b border-slate-800 flex items-center gap-2">
+          <input
+            type="search"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search the conversation"
+            className="flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded-lg px-3 py-1.5 text-xs text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-indigo-500/60"
+          />
+          <button
+            onClick={() => setPinnedOnly(v => !v)}
+            className={`px-2 py-1.5 rounded-lg text-xs font-medium border transition-colors ${
+              pinnedOnly ? 'bg-amber-500/20 border-amber-500/40 text-amber-300' : 'border-slate-800 text-slate-500 hover:text-slate-300'
+            }`}
+            title="Show pinned tips only"
+          >
+            ★ {pinnedCount}
+          </button>
+        </div>
+      )}
+      <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto p-4 custom-scrollbar bg-slate-950/20">
+        {items.length === 0 ? (
+          <div className="h-full flex flex-col items-center justify-center text-slate-600 text-center p-4">
+            <svg className="w-8 h-8 mb-3 opacity-20" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" />
+            </svg>
+            <p className="text-xs">Start a session and talk to the coach for real-time art critique, or ask for a written critique below.</p>
+          </div>
+        ) : visible.length === 0 ? (
+          <p className="text-xs text-slate-600 text-center mt-6">{pinnedOnly && !query ? 'Nothing pinned yet.' : 'No matches.'}</p>
+        ) : (
+          <div className="relative" style={{ height: totalHeight }}>
+            {visible.slice(first, last).map(({ item: t, index }, i) => {
+              const key = keyOf(t, index);
+              const lastOfTurn = t.turn !== undefined && items[index + 1]?.turn !== t.turn;
+              return (
+                <div
+                  key={key}
+                  ref={observeRow}
+                  data-key={key}
+                  className={`absolute inset-x-0 pb-4 flex flex-col gap-1 ${t.type === 'user' ? 'items-end' : 'items-start'}`}
+                  style={{ top: offsets[first + i] }}
+                >
+                  <div className={`max-w-[90%] rounded-2xl px-4 py-3 text-xs leading-relaxed shadow-sm ${
+                    t.type === 'user'
+                      ? 'bg-slate-800 text-slate-300 rounded-tr-none border border-slate-700'
+                      : 'bg-indigo-900/40 text-indigo-100 rounded-tl-none border border-indigo-500/20'
+                  } ${t.pinned ? 'ring-1 ring-amber-400/50' : ''}`}>
+                    {t.critique ? <CritiqueCard critique={t.critique} query={query} /> : <Highlighted text={t.text} query={query} />}
+                    {!t.complete && <span className="inline-block w-1.5 h-3 ml-1 align-middle bg-current opacity-50 animate-pulse" />}
+                  </div>
+                  <div className="flex items-center gap-2 px-1 text-[9px] text-slate-600 font-mono">
+                    <span>
+                      {formatTime(t.timestamp)}
+                      {t.endTimestamp && t.endTimestamp - t.timestamp >= 1000 ? `–${formatTime(t.endTimestamp)}` : ''}
+                    </span>
+                    {t.interrupted && <span className="text-amber-500/70 font-sans">interrupted</span>}
+                    {t.id && (
+                      <button
+                        onClick={() => onTogglePinned(t.id!)}
+                        className={`font-sans text-[11px] ${t.pinned ? 'text-amber-400' : 'text-slate-600 hover:text-amber-300'}`}
+                        title={t.pinned ? 'Unpin' : 'Pin this tip'}
+                      >
+                        {t.pinned ? '★' : '☆'}
+                      </button>
+                    )}
+                    {lastOfTurn && markupTurns.has(t.turn!) && (
+                      <button
+                        onClick={() => onShowMarkup(t.turn!)}
+                        className="font-sans text-[10px] font-semibold text-amber-400/80 hover:text-amber-300"
+                      >
+                        Show markup
+                      </button>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default TranscriptLog;
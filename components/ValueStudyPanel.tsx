@@ -0,0 +1,130 @@
+import React, { useRef } from 'react';
+import { ValueReport, ValueStudySettings } from '../types';
+import { VALUE_STEPS } from '../constants';
+import { lightDirectionLabel, valueBand } from '../services/valueStudy';
+
+interface ValueStudyPanelProps {
+  settings: ValueStudySettings;
+  report: ValueReport | null;
+  // Posterized frame, with the light marker drawn on it.
+  mapUrl: string | null;
+  onChange: (settings: ValueStudySettings) => void;
+  onClose: () => void;
+}
+
+const DIAL_SIZE = 56;
+
+// Drag or click around the dial to set where the light comes from.
+const LightDial: React.FC<{ angleDeg: number | null; onChange: (angleDeg: number) => void }> = ({ angleDeg, onChange }) => {
+  const dialRef = useRef<SVGSVGElement>(null);
+
+  const setFromPointer = (e: React.PointerEvent) => {
+    const rect = dialRef.current!.getBoundingClientRect();
+    const dx = e.clientX - rect.left - rect.width / 2;
+    const dy = e.clientY - rect.top - rect.height / 2;
+    const deg = (Math.atan2(dx, -dy) * 180) / Math.PI;
+    onChange((Math.round(deg / 5) * 5 + 360) % 360);
+  };
+
+  const r = DIAL_SIZE / 2;
+  const rad = angleDeg === null ? 0 : (angleDeg * Math.PI) / 180;
+  const sun = { x: r + Math.sin(rad) * (r - 7), y: r - Math.cos(rad) * (r - 7) };
+
+  return (
+    <svg
+      ref={dialRef}
+      width={DIAL_SIZE}
+      height={DIAL_SIZE}
+      className="cursor-pointer touch-none shrink-0"
+      onPointerDown={e => {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setFromPointer(e);
+      }}
+      onPointerMove={e => { if (e.currentTarget.hasPointerCapture(e.pointerId)) setFromPointer(e); }}
+    >
+      <circle cx={r} cy={r} r={r - 2} fill="#020617" stroke="#334155" strokeWidth={1.5} />
+      <circle cx={r} cy={r} r={r / 3.5} fill="#64748b" />
+      {angleDeg !== null && (
+        <>
+          <line x1={sun.x} y1={sun.y} x2={r} y2={r} stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="2 2" />
+          <circle cx={sun.x} cy={sun.y} r={5} fill="#f59e0b" />
+        </>
+      )}
+    </svg>
+  );
+};
+
+const ValueStudyPanel: React.FC<ValueStudyPanelProps> = ({ settings, report, mapUrl, onChange, onClose }) => {
+  const maxBin = report ? Math.max(...report.histogram, 0.001) : 1;
+  const buttonClass = (active: boolean) => `flex-1 py-0.5 rounded text-[10px] font-bold transition-colors ${
+    active ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-slate-300'
+  }`;
+
+  return (
+    <div className="w-52 bg-slate-900/80 backdrop-blur-sm p-3 rounded-lg border border-slate-700 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-semibold text-slate-400 uppercase tracking-widest">Value Study</span>
+        <button onClick={onClose} className="text-slate-500 hover:text-white text-sm leading-none" title="Close value study">×</button>
+      </div>
+
+      <div className="flex p-0.5 bg-slate-950 rounded-md border border-slate-800">
+        {VALUE_STEPS.map(steps => (
+          <button key={steps} onClick={() => onChange({ ...settings, steps })} className={buttonClass(settings.steps === steps)}>
+            {steps} values
+          </button>
+        ))}
+      </div>
+
+      {mapUrl ? (
+        <img src={mapUrl} alt="Value map" className="w-full rounded border border-slate-800" />
+      ) : (
+        <div className="h-24 rounded border border-slate-800 flex items-center justify-center text-[10px] text-slate-600">Measuring…</div>
+      )}
+
+      {report && (
+        <>
+          {/* Histogram, with each bin shaded in the gray of the band it falls into */}
+          <div className="flex items-end h-10 gap-px">
+            {report.histogram.map((share, i) => {
+              const band = valueBand(((i + 0.5) / report.histogram.length) * 256, report.steps);
+              const gray = Math.round((band / (report.steps - 1)) * 255);
+              return (
+                <div
+                  key={i}
+                  className="flex-1 rounded-t-sm"
+                  style={{ height: `${Math.max(2, (share / maxBin) * 100)}%`, background: `rgb(${gray},${gray},${gray})` }}
+                />
+              );
+            })}
+          </div>
+          <div className="flex gap-px">
+            {report.bands.map((share, band) => (
+              <span key={band} className="flex-1 text-center text-[8px] font-mono text-slate-400" title={`Value ${band + 1} of ${report.steps}`}>
+                {Math.round(share * 100)}
+              </span>
+            ))}
+          </div>
+          <p className="text-[9px] text-slate-500 font-mono">range {report.low}–{report.high}%</p>
+        </>
+      )}
+
+      <div className="flex items-center gap-3 pt-1">
+        <LightDial angleDeg={settings.lightAngleDeg} onChange={lightAngleDeg => onChange({ ...settings, lightAngleDeg })} />
+        <div className="text-[10px] text-slate-400 leading-tight">
+          {settings.lightAngleDeg === null ? (
+            'Set where the light comes from.'
+          ) : (
+            <>
+              Light from {lightDirectionLabel(settings.lightAngleDeg)}
+              <button onClick={() => onChange({ ...settings, lightAngleDeg: null })} className="block mt-1 text-slate-500 hover:text-slate-300">
+                Clear
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ValueStudyPanel;
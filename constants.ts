@@ -1,14 +1,15 @@
+import { CoachSettings, CoachTone, FeedbackFrequency, Lesson, LessonFocus, SkillLevel, ValueSteps } from './types';
+import { FrameSchedulerOptions } from './services/frameScheduler';
+import { TimelapseOptions } from './services/timelapse';
 
 export const ART_COACH_SYSTEM_INSTRUCTION = `
-You are 'AI Coach', a proactive, world-class personal art mentor. 
-Your goal is to provide CONSTANT, REAL-TIME guidance as the student draws.
+You are 'AI Coach', a world-class personal art mentor. 
+Your goal is to provide real-time guidance as the student draws.
 
 CRITICAL BEHAVIOR:
-- PROACTIVE FEEDBACK: Do NOT wait for the student to speak. As you receive image frames, provide a running commentary on their drawing.
 - BE TECHNICAL: Analyze line quality (scratchy vs confident), shape accuracy, anatomy proportions, and perspective.
 - COMMENT ON PROGRESS: If they draw a circle, comment on its roundness. If they start a figure, guide their gesture.
-- IDENTIFY MISTAKES: Immediately point out if a limb is too long, if a box is out of perspective, or if they are "petting the line" (making many small strokes instead of one confident line).
-- ENCOURAGE: While being technical, maintain a supportive "Studio Mentor" vibe.
+- IDENTIFY MISTAKES: Point out if a limb is too long, if a box is out of perspective, or if they are "petting the line" (making many small strokes instead of one confident line).
 
 CORE TEACHINGS:
 1. Shape Language: Breaking complex objects into simple spheres, boxes, and cylinders.
@@ -16,16 +17,321 @@ CORE TEACHINGS:
 3. Gesture: Capturing the "Line of Action".
 4. Perspective: Vanishing points and horizon lines.
 5. Value & Lighting: 3D form through light and shadow.
+`;
+
+// The student's coach settings pick one line from each of these.
+export const FEEDBACK_FREQUENCY_INSTRUCTIONS: Record<FeedbackFrequency, string> = {
+  constant: 'FEEDBACK: Be extremely talkative. Do not wait for the student to speak; comment on every new stroke you see and give a verbal critique every few seconds while they make progress. If the student is silent, still guide them through the process, e.g. "I see you\'re starting with a sphere for the head. Good. Now find the brow line to place the eyes."',
+  pauses: 'FEEDBACK: Let the student draw. Speak up when they pause, when frames stop changing or a shape looks finished, and then give one or two points. Interrupt active drawing only for a serious mistake.',
+  'on-request': 'FEEDBACK: Stay quiet and keep watching. Only speak when the student asks you something, presses "Critique Now" or starts a new lesson step.'
+};
+
+export const COACH_TONE_INSTRUCTIONS: Record<CoachTone, string> = {
+  gentle: 'TONE: Be warm and encouraging. Start with what works, phrase problems as things to try next, and keep to one correction at a time.',
+  balanced: 'TONE: Keep a supportive "Studio Mentor" vibe while being technical: name problems plainly and always pair them with a fix.',
+  strict: 'TONE: Be blunt and exacting, like a demanding atelier instructor. Skip praise unless it is earned, name every significant mistake directly and expect it fixed.'
+};
+
+export const SKILL_LEVEL_INSTRUCTIONS: Record<SkillLevel, string> = {
+  beginner: 'LEVEL: The student is a beginner. Use plain words, explain any art term you use, and focus on fundamentals before details.',
+  intermediate: 'LEVEL: The student knows the fundamentals. Use normal art vocabulary and push on accuracy and consistency.',
+  advanced: 'LEVEL: The student is advanced. Skip the basics and critique at a professional level: design, rhythm, subtle proportion and value errors.'
+};
+
+export const FEEDBACK_FREQUENCIES: { id: FeedbackFrequency; label: string }[] = [
+  { id: 'constant', label: 'Constant' },
+  { id: 'pauses', label: 'On Pauses' },
+  { id: 'on-request', label: 'On Request' }
+];
+
+export const COACH_TONES: { id: CoachTone; label: string }[] = [
+  { id: 'gentle', label: 'Gentle' },
+  { id: 'balanced', label: 'Balanced' },
+  { id: 'strict', label: 'Strict' }
+];
+
+export const SKILL_LEVELS: { id: SkillLevel; label: string }[] = [
+  { id: 'beginner', label: 'Beginner' },
+  { id: 'intermediate', label: 'Intermediate' },
+  { id: 'advanced', label: 'Advanced' }
+];
+
+// Prebuilt voices of the live model.
+export const COACH_VOICES: { id: string; description: string }[] = [
+  { id: 'Kore', description: 'Firm' },
+  { id: 'Puck', description: 'Upbeat' },
+  { id: 'Charon', description: 'Informative' },
+  { id: 'Fenrir', description: 'Excitable' },
+  { id: 'Aoede', description: 'Breezy' },
+  { id: 'Leda', description: 'Youthful' },
+  { id: 'Orus', description: 'Firm, deeper' },
+  { id: 'Zephyr', description: 'Bright' }
+];
+
+export const COACH_LANGUAGES = [
+  'English', 'Spanish', 'French', 'German', 'Italian', 'Portuguese', 'Dutch', 'Polish',
+  'Russian', 'Turkish', 'Arabic', 'Hindi', 'Indonesian', 'Japanese', 'Korean', 'Chinese'
+];
 
-If the student is silent, you must still guide them through the process. Example: "I see you're starting with a sphere for the head. Good. Now, try to find the brow line to place the eyes correctly."
+export const DEFAULT_COACH_SETTINGS: CoachSettings = {
+  frequency: 'constant',
+  tone: 'balanced',
+  skillLevel: 'intermediate',
+  voice: 'Kore',
+  language: 'English'
+};
+
+export const STROKE_METRICS_INSTRUCTION = `
+You will also receive text messages starting with [STROKE METRICS]. They are measured locally from the student's pen data (stroke length, overlap, speed consistency, curvature jitter, pen lifts).
+Use these numbers to ground your comments on line confidence and "petting the line". Do not read the numbers out verbatim; translate them into coaching.
+`;
+
+export const PERSPECTIVE_INSTRUCTION = `
+When the student turns on perspective guides you will receive messages starting with [PERSPECTIVE CHECK]. They give the horizon and vanishing point positions and how many degrees the student's straight lines miss them by, measured locally.
+Use them to say which set of lines is drifting and in which direction to correct; do not read the numbers out verbatim.
 `;
 
-export const LESSONS: any[] = [
-  { id: '1', title: 'The Power of Shapes', description: 'Deconstructing the world into cubes and spheres.', focus: 'shapes' },
-  { id: '2', title: 'Human Proportions', description: 'The 8-head rule and basic skeletal structure.', focus: 'anatomy' },
-  { id: '3', title: 'Dynamic Gesture', description: 'Capturing the "Line of Action" in 30 seconds.', focus: 'gesture' },
-  { id: '4', title: 'Perspective Basics', description: 'Horizon lines and vanishing points.', focus: 'perspective' },
+export const LAYERS_INSTRUCTION = `
+The digital canvas has layers. Messages starting with [LAYERS] tell you which layers the frames show.
+Construction layers hold loose guide shapes (spheres, boxes, lines of action): judge them on structure, proportion and gesture, not line quality. Judge line art layers on line quality and confidence. When only one kind of layer is shown, keep your feedback to that kind.
+`;
+
+export const ANNOTATION_INSTRUCTION = `
+You can draw on top of the student's work with the draw_circle, draw_arrow, draw_correction, mark_vanishing_point, draw_horizon and add_label functions. Coordinates run from 0 to 1000 across the width and height of the latest frame you were sent, measured from its top-left corner.
+When you point out a specific problem ("the arm is too long", "this edge misses the vanishing point"), mark it as you say it, and use draw_correction to show where the line should go. Keep to one to three marks at a time and call clear_annotations when you move on to something else.
+`;
+
+export const REFERENCE_INSTRUCTION = `
+The student can load a reference image (a photo or a master study) to draw from. Messages starting with [REFERENCE] say when one is loaded and how frames show it: either side by side, with the reference on the left and the drawing on the right, or with the reference faded over the drawing.
+While a reference is loaded, judge the drawing against it: proportions, angles, placement and values, naming where the drawing drifts from the reference. Annotation coordinates always refer to the drawing alone, not to the reference half of a side-by-side frame.
+`;
+
+export const VALUE_STUDY_INSTRUCTION = `
+When the student opens the value study you will receive messages starting with [VALUE STUDY], each with two images: the frame as it is and the same frame posterized into 3, 5 or 9 values, plus how much of the frame falls in each value and where the light comes from.
+Use the value map to critique value grouping and shadow shapes: whether lights and shadows read as a few clear masses, whether the shadow side and cast shadows face away from the light, and whether the full range from light to dark is used. In the Digital Studio the canvas is dark, so the student may be working light on dark.
+`;
+
+export const LEARNER_PROFILE_INSTRUCTION = `
+The [LEARNER PROFILE] below summarises the student's earlier sessions on this device. Pitch your feedback to their level, notice when they improve in their weak areas, and don't repeat basics they have clearly mastered.
+`;
+
+export const SESSION_REPORT_INSTRUCTION = `
+You are an art teacher writing a short written report after a one-on-one drawing lesson. You get the lesson, the transcript of the spoken session (your own feedback as "Coach", the student's words as "Student") and numbered frames of the student's work over time.
+Base every point on what was actually said or visible; do not invent problems. Group recurring mistakes by focus area (shapes, anatomy, perspective, lighting, gesture) and count how often each came up. Suggest two to four concrete exercises for the next session. Score each focus area the session touched from 0 to 100 for a student at this level; leave out areas that did not come up. Pick the two to four frames that best show progress or a key correction and caption them.
+Write plainly and encouragingly, addressing the student as "you".
+`;
+
+export const STILL_CRITIQUE_INSTRUCTION = `
+You are an expert art teacher giving a written critique of one drawing. You get the lesson the student is working on and a single image: a digital canvas, a camera photo of a sketchbook page, or an uploaded picture of a finished piece.
+Judge only what is visible in the image; do not invent problems. Organise the critique by focus area (shapes, anatomy, perspective, lighting, gesture), putting the lesson's focus first, and leave out areas the image gives you nothing to say about. For each area, name what works, then the problems that matter most, each with a concrete fix. End with the single next step that would improve the drawing most.
+Address the student as "you". If the image is not a drawing or is too blurry to judge, say so in the summary and return no sections.
+`;
+
+export const CRITIQUE_NOW_PROMPT = 'The student pressed "Critique Now". Give a focused critique of this exact frame right away: name the single biggest problem for the current lesson step, then one concrete fix.';
+
+export const FOCUS_AREAS: { id: LessonFocus; label: string }[] = [
+  { id: 'shapes', label: 'Shape Language' },
+  { id: 'anatomy', label: 'Anatomy' },
+  { id: 'perspective', label: 'Perspective' },
+  { id: 'lighting', label: 'Light & Value' },
+  { id: 'gesture', label: 'Gesture' }
+];
+
+export const LESSONS: Lesson[] = [
+  {
+    id: '1',
+    title: 'The Power of Shapes',
+    description: 'Deconstructing the world into cubes and spheres.',
+    focus: 'shapes',
+    steps: [
+      {
+        id: 'warmup-ellipses',
+        title: 'Ellipse Warm-up',
+        instruction: 'Fill the page with ellipses of different sizes. Draw each one from the shoulder in a single, quick motion, going around two or three times.',
+        timeLimitSec: 60,
+        completion: { type: 'strokes', count: 10 }
+      },
+      {
+        id: 'spheres',
+        title: 'Spheres',
+        instruction: 'Draw three spheres. Add a contour line across each one so it reads as a solid ball, not a flat circle.',
+        completion: { type: 'strokes', count: 6 }
+      },
+      {
+        id: 'boxes',
+        title: 'Boxes',
+        instruction: 'Draw three boxes at different angles. Keep parallel edges parallel and make the far edges slightly shorter than the near ones.',
+        completion: { type: 'strokes', count: 27 }
+      },
+      {
+        id: 'construct-object',
+        title: 'Construct an Object',
+        instruction: 'Pick a simple object, like a mug or a lamp, and build it only from spheres, boxes and cylinders before adding any detail.',
+        completion: { type: 'manual' }
+      }
+    ]
+  },
+  {
+    id: '2',
+    title: 'Human Proportions',
+    description: 'The 8-head rule and basic skeletal structure.',
+    focus: 'anatomy',
+    steps: [
+      {
+        id: 'head-units',
+        title: 'Mark the Head Units',
+        instruction: 'Draw a vertical line and divide it into eight equal head units. Draw the head as an oval in the top unit.',
+        completion: { type: 'strokes', count: 10 }
+      },
+      {
+        id: 'landmarks',
+        title: 'Place the Landmarks',
+        instruction: 'Mark the chin, nipples, navel, crotch, mid-thigh, knees, mid-shin and feet on the unit lines. The crotch sits at the halfway point.',
+        completion: { type: 'manual' }
+      },
+      {
+        id: 'skeleton',
+        title: 'Block in the Skeleton',
+        instruction: 'Block in the rib cage as an egg, the pelvis as a box, and the limbs as simple lines. Shoulders are about two heads wide.',
+        completion: { type: 'manual' }
+      }
+    ]
+  },
+  {
+    id: '3',
+    title: 'Dynamic Gesture',
+    description: 'Capturing the "Line of Action" in 30 seconds.',
+    focus: 'gesture',
+    steps: [
+      {
+        id: 'line-of-action',
+        title: 'Line of Action',
+        instruction: 'You have 30 seconds. Draw one long, confident curve that captures the movement of the whole pose. No details.',
+        timeLimitSec: 30,
+        completion: { type: 'manual' }
+      },
+      {
+        id: 'gesture-masses',
+        title: 'Add the Masses',
+        instruction: 'Another 30 seconds. Hang the head, rib cage and pelvis on your line of action without stiffening the curve.',
+        timeLimitSec: 30,
+        completion: { type: 'manual' }
+      },
+      {
+        id: 'gesture-limbs',
+        title: 'Limbs in Motion',
+        instruction: 'Final 30 seconds. Sweep in the arms and legs as flowing curves that continue the rhythm of the pose.',
+        timeLimitSec: 30,
+        completion: { type: 'manual' }
+      }
+    ]
+  },
+  {
+    id: '4',
+    title: 'Perspective Basics',
+    description: 'Horizon lines and vanishing points.',
+    focus: 'perspective',
+    steps: [
+      {
+        id: 'horizon',
+        title: 'Set the Horizon',
+        instruction: 'Draw a straight horizon line across the page and place a single vanishing point on it.',
+        completion: { type: 'strokes', count: 1 }
+      },
+      {
+        id: 'one-point-boxes',
+        title: 'One-Point Boxes',
+        instruction: 'Draw three boxes in one-point perspective: one above the horizon, one on it and one below. Every receding edge must aim at the vanishing point.',
+        completion: { type: 'strokes', count: 20 }
+      },
+      {
+        id: 'two-point-box',
+        title: 'Two-Point Box',
+        instruction: 'Add a second vanishing point far out on the horizon and draw a box whose sides recede to both points.',
+        completion: { type: 'manual' }
+      }
+    ]
+  },
+  {
+    id: '5',
+    title: 'Light & Value',
+    description: 'Turning shapes into form with light and shadow.',
+    focus: 'lighting',
+    prerequisites: ['1'],
+    steps: [
+      {
+        id: 'value-scale',
+        title: 'Five-Step Value Scale',
+        instruction: 'Open the Value Study at 5 steps and fill a row of five boxes from lightest to darkest. Each box should land in its own band on the value map.',
+        completion: { type: 'strokes', count: 10 }
+      },
+      {
+        id: 'lit-sphere',
+        title: 'Light a Sphere',
+        instruction: 'Set the light direction, then shade a sphere: light side, core shadow, reflected light and a cast shadow on the ground, all facing away from the light.',
+        completion: { type: 'strokes', count: 25 }
+      },
+      {
+        id: 'three-values',
+        title: 'Three-Value Study',
+        instruction: 'Switch to 3 steps and do a quick study of a simple object using only light, middle and dark. Keep the shadow shapes big and simple.',
+        timeLimitSec: 600,
+        completion: { type: 'manual' }
+      }
+    ]
+  },
 ];
 
-export const FRAME_RATE = 1; 
+export const GEMINI_LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-09-2025';
+// Used for one-off requests outside the live session.
+export const GEMINI_TEXT_MODEL = 'gemini-2.5-flash';
+
 export const JPEG_QUALITY = 0.6;
+// Frames are polled this often but only sent when the frame scheduler decides they changed enough.
+export const FRAME_POLL_MS = 250;
+export const FRAME_SCHEDULER_OPTIONS: FrameSchedulerOptions = {
+  budgetBytesPerSec: 40000,
+  changeThreshold: 0.004,
+  bigChangeThreshold: 0.04,
+  minIntervalMs: 1000,
+  changeIntervalMs: 3000,
+  heartbeatMs: 15000,
+  levels: [
+    { maxDimension: 1024, quality: JPEG_QUALITY },
+    { maxDimension: 768, quality: 0.5 },
+    { maxDimension: 512, quality: 0.45 },
+    { maxDimension: 384, quality: 0.35 }
+  ]
+};
+export const STROKE_METRICS_INTERVAL_MS = 5000;
+export const SNAPSHOT_INTERVAL_MS = 30000;
+// Pose lengths offered in gesture practice.
+export const GESTURE_DURATIONS_SEC = [30, 60, 120, 300];
+// Reference images are shrunk to this size before they are sent to the coach.
+export const REFERENCE_IMAGE_MAX_DIMENSION = 768;
+// Written critiques get a larger, sharper image than live frames.
+export const STILL_CRITIQUE_MAX_DIMENSION = 1536;
+export const STILL_CRITIQUE_JPEG_QUALITY = 0.85;
+export const VALUE_STEPS: ValueSteps[] = [3, 5, 9];
+// The value map is measured this often while the value study is open.
+export const VALUE_STUDY_POLL_MS = 1000;
+// The coach gets a new value map at most this often, and only when the band shares moved by VALUE_CHANGE_THRESHOLD.
+export const VALUE_STUDY_INTERVAL_MS = 8000;
+export const VALUE_CHANGE_THRESHOLD = 0.03;
+export const VALUE_MAP_MAX_DIMENSION = 384;
+// Reference images in custom lessons are stored at this size to stay within browser storage.
+export const LESSON_REFERENCE_MAX_DIMENSION = 512;
+// Images imported into artwork are stored at this size, embedded in the saved file.
+export const ARTWORK_IMAGE_MAX_DIMENSION = 2048;
+export const PNG_EXPORT_SCALES = [1, 2, 4];
+// Timelapse frames are checked this often while recording.
+export const TIMELAPSE_POLL_MS = 1000;
+export const TIMELAPSE_OPTIONS: TimelapseOptions = {
+  intervalMs: 2000,
+  maxFrames: 900,
+  maxDimension: 720,
+  quality: 0.75,
+  changeThreshold: 0.002
+};
+// Real seconds per second of timelapse video.
+export const TIMELAPSE_SPEEDS = [10, 30, 60, 120, 300];
@@ -0,0 +1,209 @@
+import { Annotation, AnnotationShape, Point } from '../types';
+import { CoachToolCall, CoachToolDeclaration, CoachToolResponse, CoachToolSchema } from './coachSession';
+
+// Annotation coordinates run from 0 to this value across the frame.
+export const ANNOTATION_SPACE = 1000;
+export const ANNOTATION_TTL_MS = 15000;
+// Annotations fade out over the end of their lifetime.
+export const ANNOTATION_FADE_MS = 2000;
+
+const coordinate = (description: string): CoachToolSchema => ({ type: 'number', description });
+
+const sharedProperties: Record<string, CoachToolSchema> = {
+  label: { type: 'string', description: 'Optional short caption shown next to the mark.' },
+  seconds: { type: 'number', description: 'How long to show the mark. Defaults to 15; 0 keeps it until cleared.' }
+};
+
+export const ANNOTATION_TOOLS: CoachToolDeclaration[] = [
+  {
+    name: 'draw_circle',
+    description: 'Circle an area of the drawing you are talking about.',
+    parameters: {
+      type: 'object',
+      properties: {
+        x: coordinate('Centre x, 0-1000 from the left edge of the frame.'),
+        y: coordinate('Centre y, 0-1000 from the top edge of the frame.'),
+        radius: coordinate('Radius in the same 0-1000 units as x.'),
+        ...sharedProperties
+      },
+      required: ['x', 'y', 'radius']
+    }
+  },
+  {
+    name: 'draw_arrow',
+    description: 'Point at something, or show a direction such as where a line should flow.',
+    parameters: {
+      type: 'object',
+      properties: {
+        from_x: coordinate('Tail x, 0-1000.'),
+        from_y: coordinate('Tail y, 0-1000.'),
+        to_x: coordinate('Head x, 0-1000.'),
+        to_y: coordinate('Head y, 0-1000.'),
+        ...sharedProperties
+      },
+      required: ['from_x', 'from_y', 'to_x', 'to_y']
+    }
+  },
+  {
+    name: 'draw_correction',
+    description: 'Draw the corrected version of a line, e.g. the right length of a limb or the right angle of an edge.',
+    parameters: {
+      type: 'object',
+      properties: {
+        from_x: coordinate('Start x, 0-1000.'),
+        from_y: coordinate('Start y, 0-1000.'),
+        to_x: coordinate('End x, 0-1000.'),
+        to_y: coordinate('End y, 0-1000.'),
+        ...sharedProperties
+      },
+      required: ['from_x', 'from_y', 'to_x', 'to_y']
+    }
+  },
+  {
+    name: 'mark_vanishing_point',
+    description: 'Mark where a set of receding lines should meet.',
+    parameters: {
+      type: 'object',
+      properties: {
+        x: coordinate('x, 0-1000. May fall outside the frame.'),
+        y: coordinate('y, 0-1000. May fall outside the frame.'),
+        ...sharedProperties
+      },
+      required: ['x', 'y']
+    }
+  },
+  {
+    name: 'draw_horizon',
+    description: 'Draw the horizon (eye level) line across the frame.',
+    parameters: {
+      type: 'object',
+      properties: {
+        y: coordinate('Height of the horizon, 0-1000 from the top.'),
+        ...sharedProperties
+      },
+      required: ['y']
+    }
+  },
+  {
+    name: 'add_label',
+    description: 'Write a short note on the drawing.',
+    parameters: {
+      type: 'object',
+      properties: {
+        x: coordinate('x of the start of the text, 0-1000.'),
+        y: coordinate('y of the text baseline, 0-1000.'),
+        text: { type: 'string', description: 'A few words at most.' },
+        seconds: sharedProperties.seconds
+      },
+      required: ['x', 'y', 'text']
+    }
+  },
+  {
+    name: 'clear_annotations',
+    description: 'Remove annotations you drew earlier, e.g. when moving on to another point.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ids: { type: 'array', items: { type: 'string' }, description: 'Ids returned when the marks were drawn. Omit to clear everything.' }
+      }
+    }
+  }
+];
+
+const readNumber = (args: Record<string, unknown>, key: string): number => {
+  const value = Number(args[key]);
+  if (args[key] === undefined || !Number.isFinite(value)) {
+    throw new Error(`"${key}" must be a number`);
+  }
+  return value;
+};
+
+const readPoint = (args: Record<string, unknown>, xKey: string, yKey: string): Point => ({
+  x: readNumber(args, xKey),
+  y: readNumber(args, yKey)
+});
+
+function shapeFromCall(call: CoachToolCall): AnnotationShape | null {
+  const { args } = call;
+  switch (call.name) {
+    case 'draw_circle':
+      return { kind: 'circle', center: readPoint(args, 'x', 'y'), radius: Math.abs(readNumber(args, 'radius')) };
+    case 'draw_arrow':
+      return { kind: 'arrow', from: readPoint(args, 'from_x', 'from_y'), to: readPoint(args, 'to_x', 'to_y') };
+    case 'draw_correction':
+      return { kind: 'correction', from: readPoint(args, 'from_x', 'from_y'), to: readPoint(args, 'to_x', 'to_y') };
+    case 'mark_vanishing_point':
+      return { kind: 'vanishing-point', at: readPoint(args, 'x', 'y') };
+    case 'draw_horizon':
+      return { kind: 'horizon', y: readNumber(args, 'y') };
+    case 'add_label': {
+      const text = String(args.text ?? '').trim();
+      if (!text) throw new Error('"text" must not be empty');
+      return { kind: 'label', at: readPoint(args, 'x', 'y'), text };
+    }
+    default:
+      return null;
+  }
+}
+
+// Applies one coach function call to the annotation list. Returns the new
+// list and the response to send back to the coach.
+export function applyAnnotationCall(
+  annotations: Annotation[],
+  call: CoachToolCall,
+  turn: number,
+  now: number = Date.now(),
+): { annotations: Annotation[]; response: CoachToolResponse } {
+  const respond = (response: Record<string, unknown>) => ({ id: call.id, name: call.name, response });
+
+  if (call.name === 'clear_annotations') {
+    const ids = Array.isArray(call.args.ids) ? call.args.ids.map(String) : null;
+    let cleared = 0;
+    const next = annotations.map(a => {
+      if (a.cleared || (ids && !ids.includes(a.id))) return a;
+      cleared++;
+      return { ...a, cleared: true };
+    });
+    return { annotations: next, response: respond({ cleared }) };
+  }
+
+  try {
+    const shape = shapeFromCall(call);
+    if (!shape) return { annotations, response: respond({ error: `Unknown function ${call.name}` }) };
+    const seconds = call.args.seconds === undefined ? ANNOTATION_TTL_MS / 1000 : Math.max(0, Number(call.args.seconds) || 0);
+    const label = typeof call.args.label === 'string' && call.args.label.trim() ? call.args.label.trim() : undefined;
+    const annotation: Annotation = {
+      id: `a${annotations.length + 1}`,
+      shape,
+      label,
+      turn,
+      shownAt: now,
+      ttlMs: seconds * 1000,
+      cleared: false
+    };
+    return { annotations: [...annotations, annotation], response: respond({ id: annotation.id }) };
+  } catch (err) {
+    // Bad arguments go back to the coach so it can retry
+    return { annotations, response: respond({ error: err instanceof Error ? err.message : String(err) }) };
+  }
+}
+
+export function isAnnotationVisible(annotation: Annotation, now: number): boolean {
+  if (annotation.cleared) return false;
+  return annotation.ttlMs === 0 || now < annotation.shownAt + annotation.ttlMs;
+}
+
+export function annotationOpacity(annotation: Annotation, now: number): number {
+  if (!isAnnotationVisible(annotation, now)) return 0;
+  if (annotation.ttlMs === 0) return 1;
+  const remaining = annotation.shownAt + annotation.ttlMs - now;
+  return Math.min(1, remaining / ANNOTATION_FADE_MS);
+}
+
+// Brings back the marks a coach turn made, e.g. when the student picks that
+// entry in the feedback log.
+export function reshowTurn(annotations: Annotation[], turn: number, now: number = Date.now()): Annotation[] {
+  return annotations.map(a => a.turn === turn
+    ? { ...a, shownAt: now, ttlMs: a.ttlMs || ANNOTATION_TTL_MS, cleared: false }
+    : a);
+}
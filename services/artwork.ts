@@ -0,0 +1,301 @@
+// Saving, opening and exporting artwork. The project file keeps the vector
+// strokes and layers, so an opened drawing stays fully editable. Anything read
+// from a file goes through parseArtwork first.
+import { BrushTool, Layer, LayerImage, Stroke, StrokePoint } from '../types';
+import { LayerUnderlay, brushDab, compositeBelow, compositeLayers, renderLayer } from './strokeRenderer';
+import { containRect } from './referenceComparison';
+
+export const ARTWORK_FORMAT = 'artis-artwork';
+const ARTWORK_VERSION = 1;
+export const ARTWORK_EXTENSION = '.artis.json';
+
+export interface ArtworkProject {
+  format: typeof ARTWORK_FORMAT;
+  version: number;
+  savedAt: string;
+  // Canvas size in CSS px when the artwork was saved.
+  width: number;
+  height: number;
+  // Bottom first, as in the layer panel.
+  layers: Layer[];
+  strokes: Stroke[];
+}
+
+export interface ExportOptions {
+  // Null exports a transparent background.
+  background: string | null;
+  // Pixels per CSS px of the canvas.
+  scale: number;
+}
+
+const TOOLS: BrushTool[] = ['pencil', 'ink', 'charcoal', 'eraser', 'blend'];
+const IMAGE_DATA_URL = /^data:image\/(png|jpeg|webp|gif);base64,[A-Za-z0-9+/]+=*$/;
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+export function artworkFilename(extension: string): string {
+  return `artwork-${new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-')}${extension}`;
+}
+
+export function serializeArtwork(strokes: Stroke[], layers: Layer[], width: number, height: number): string {
+  const project: ArtworkProject = {
+    format: ARTWORK_FORMAT,
+    version: ARTWORK_VERSION,
+    savedAt: new Date().toISOString(),
+    width: Math.round(width),
+    height: Math.round(height),
+    layers,
+    strokes
+  };
+  return JSON.stringify(project);
+}
+
+function readImage(value: unknown, label: string): LayerImage | undefined {
+  if (value === undefined) return undefined;
+  if (
+    !isFields(value) || typeof value.src !== 'string' || !IMAGE_DATA_URL.test(value.src) ||
+    !isNumber(value.x) || !isNumber(value.y) || !isNumber(value.width) || !isNumber(value.height) ||
+    value.width <= 0 || value.height <= 0
+  ) {
+    throw new Error(`${label} has a broken image.`);
+  }
+  return { src: value.src, x: value.x, y: value.y, width: value.width, height: value.height };
+}
+
+function readLayer(value: unknown, index: number): Layer {
+  const label = `Layer ${index + 1}`;
+  if (!isFields(value) || typeof value.id !== 'string' || !value.id || typeof value.name !== 'string') {
+    throw new Error(`${label} is missing its id or name.`);
+  }
+  const layer: Layer = {
+    id: value.id,
+    name: value.name.trim() || label,
+    visible: value.visible !== false,
+    locked: value.locked === true,
+    opacity: isNumber(value.opacity) ? Math.min(1, Math.max(0, value.opacity)) : 1,
+    sendToCoach: value.sendToCoach !== false
+  };
+  const image = readImage(value.image, label);
+  if (image) layer.image = image;
+  return layer;
+}
+
+function readPoint(value: unknown): StrokePoint | null {
+  if (!isFields(value) || !isNumber(value.x) || !isNumber(value.y) || !isNumber(value.t)) return null;
+  return {
+    x: value.x,
+    y: value.y,
+    t: value.t,
+    pressure: isNumber(value.pressure) ? Math.min(1, Math.max(0, value.pressure)) : 0.5,
+    tiltX: isNumber(value.tiltX) ? value.tiltX : 0,
+    tiltY: isNumber(value.tiltY) ? value.tiltY : 0
+  };
+}
+
+function readStroke(value: unknown, index: number, layerIds: Set<string>): Stroke {
+  const label = `Stroke ${index + 1}`;
+  if (!isFields(value) || !Array.isArray(value.points)) throw new Error(`${label} has no points.`);
+  if (typeof value.layerId !== 'string' || !layerIds.has(value.layerId)) throw new Error(`${label} is on a layer that doesn't exist.`);
+  const points = value.points.map(readPoint);
+  if (points.some(p => !p)) throw new Error(`${label} has a broken point.`);
+  return {
+    id: typeof value.id === 'string' && value.id ? value.id : crypto.randomUUID(),
+    points: points as StrokePoint[],
+    color: typeof value.color === 'string' && CSS.supports('color', value.color) ? value.color : '#f8fafc',
+    size: isNumber(value.size) && value.size > 0 ? value.size : 2,
+    tool: TOOLS.includes(value.tool as BrushTool) ? value.tool as BrushTool : 'pencil',
+    pointerType: value.pointerType === 'pen' || value.pointerType === 'touch' ? value.pointerType : 'mouse',
+    layerId: value.layerId
+  };
+}
+
+// Reads a saved artwork file and returns a clean copy, or throws an Error saying what's wrong with it.
+export function parseArtwork(text: string): ArtworkProject {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  if (!isFields(data) || data.format !== ARTWORK_FORMAT) throw new Error('This is not a saved artwork file.');
+  if (!isNumber(data.version) || data.version > ARTWORK_VERSION) throw new Error('This artwork was saved by a newer version of the app.');
+  if (!Array.isArray(data.layers) || data.layers.length === 0) throw new Error('The artwork has no layers.');
+  if (!Array.isArray(data.strokes)) throw new Error('The artwork has no stroke data.');
+
+  const layers = data.layers.map(readLayer);
+  const layerIds = new Set(layers.map(l => l.id));
+  if (layerIds.size !== layers.length) throw new Error('Two layers in the artwork share an id.');
+  return {
+    format: ARTWORK_FORMAT,
+    version: ARTWORK_VERSION,
+    savedAt: typeof data.savedAt === 'string' ? data.savedAt : '',
+    width: isNumber(data.width) ? data.width : 0,
+    height: isNumber(data.height) ? data.height : 0,
+    layers,
+    strokes: data.strokes.map((stroke, i) => readStroke(stroke, i, layerIds))
+  };
+}
+
+// Scales and centres the artwork to fit a canvas of the given size, when it was
+// saved on a canvas of a different size, so it opens neither clipped nor off-centre.
+export function fitArtwork(project: ArtworkProject, width: number, height: number): ArtworkProject {
+  if (project.width <= 0 || project.height <= 0 || width <= 0 || height <= 0) return project;
+  if (Math.round(width) === project.width && Math.round(height) === project.height) return project;
+  const scale = Math.min(width / project.width, height / project.height);
+  const dx = (width - project.width * scale) / 2;
+  const dy = (height - project.height * scale) / 2;
+  return {
+    ...project,
+    width: Math.round(width),
+    height: Math.round(height),
+    layers: project.layers.map(layer => layer.image ? {
+      ...layer,
+      image: {
+        ...layer.image,
+        x: layer.image.x * scale + dx,
+        y: layer.image.y * scale + dy,
+        width: layer.image.width * scale,
+        height: layer.image.height * scale
+      }
+    } : layer),
+    strokes: project.strokes.map(stroke => ({
+      ...stroke,
+      size: stroke.size * scale,
+      points: stroke.points.map(p => ({ ...p, x: p.x * scale + dx, y: p.y * scale + dy }))
+    }))
+  };
+}
+
+export function decodeImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not decode the image'));
+    image.src = src;
+  });
+}
+
+// Loads an image file as a layer picture, fitted inside a canvas of the given size.
+// It is kept as PNG so transparent areas still show the layers below.
+export async function importLayerImage(file: File, maxDimension: number, width: number, height: number): Promise<LayerImage> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await decodeImage(url);
+    const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return { src: canvas.toDataURL('image/png'), ...containRect(canvas.width, canvas.height, width, height) };
+  } catch {
+    throw new Error(`Could not load ${file.name}. Is it an image?`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+// The decoded picture to draw under a layer's strokes, once it has loaded.
+export function layerUnderlay(layer: Layer, images: Map<string, HTMLImageElement>): LayerUnderlay | undefined {
+  if (!layer.image) return undefined;
+  const image = images.get(layer.image.src);
+  if (!image?.complete || !image.naturalWidth) return undefined;
+  return { image, x: layer.image.x, y: layer.image.y, width: layer.image.width, height: layer.image.height };
+}
+
+// Renders the visible layers from stroke data at `scale` pixels per CSS px.
+export function renderArtwork(
+  strokes: Stroke[],
+  layers: Layer[],
+  images: Map<string, HTMLImageElement>,
+  width: number,
+  height: number,
+  options: ExportOptions
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * options.scale);
+  canvas.height = Math.round(height * options.scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  const visible = layers.filter(l => l.visible);
+  const canvases = new Map<string, HTMLCanvasElement>();
+  const below = document.createElement('canvas');
+  visible.forEach(layer => {
+    const layerCanvas = document.createElement('canvas');
+    layerCanvas.width = canvas.width;
+    layerCanvas.height = canvas.height;
+    canvases.set(layer.id, layerCanvas);
+    renderLayer(
+      layerCanvas, strokes, layer.id, options.scale, layerUnderlay(layer, images),
+      () => compositeBelow(below, visible, layer.id, canvases)
+    );
+  });
+  compositeLayers(ctx, visible, canvases, options.background);
+  return canvas;
+}
+
+export function canvasToPng(canvas: HTMLCanvasElement): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the PNG')), 'image/png');
+  });
+}
+
+const escapeXml = (text: string) => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+// One path per stroke, with pressure and tilt averaged over the stroke, so the
+// SVG is a clean vector take on the drawing rather than an exact copy.
+function strokeElement(stroke: Stroke, color: string): string {
+  const dabs = stroke.points.map(p => brushDab(stroke, p));
+  const width = round(dabs.reduce((sum, d) => sum + d.width, 0) / dabs.length);
+  const alpha = round(dabs.reduce((sum, d) => sum + d.alpha, 0) / dabs.length);
+  const fill = escapeXml(color);
+  if (stroke.points.length === 1) {
+    const p = stroke.points[0];
+    return `<circle cx="${round(p.x)}" cy="${round(p.y)}" r="${round(width / 2)}" fill="${fill}" fill-opacity="${alpha}"/>`;
+  }
+  const d = stroke.points.map((p, i) => `${i === 0 ? 'M' : 'L'}${round(p.x)} ${round(p.y)}`).join(' ');
+  return `<path d="${d}" fill="none" stroke="${fill}" stroke-opacity="${alpha}" stroke-width="${width}" stroke-linecap="round" stroke-linejoin="round"/>`;
+}
+
+// Builds an SVG from the visible layers' stroke data. Eraser strokes become
+// masks over what was drawn before them on their layer; blend strokes smudge
+// rendered pixels, so they have no vector form and are left out.
+export function artworkToSvg(strokes: Stroke[], layers: Layer[], width: number, height: number, background: string | null): string {
+  const defs: string[] = [];
+  const groups = layers.filter(l => l.visible).map((layer, layerIndex) => {
+    let body = layer.image
+      ? `<image href="${layer.image.src}" x="${round(layer.image.x)}" y="${round(layer.image.y)}" width="${round(layer.image.width)}" height="${round(layer.image.height)}" preserveAspectRatio="none"/>`
+      : '';
+    strokes.forEach((stroke, strokeIndex) => {
+      if (stroke.layerId !== layer.id || stroke.points.length === 0 || stroke.tool === 'blend') return;
+      if (stroke.tool === 'eraser') {
+        const id = `erase-${layerIndex}-${strokeIndex}`;
+        defs.push(
+          `<mask id="${id}" maskUnits="userSpaceOnUse" x="0" y="0" width="${width}" height="${height}">` +
+          `<rect width="${width}" height="${height}" fill="#fff"/>${strokeElement(stroke, '#000')}</mask>`
+        );
+        body = `<g mask="url(#${id})">${body}</g>`;
+        return;
+      }
+      body += strokeElement(stroke, stroke.color);
+    });
+    return `<g id="layer-${layerIndex + 1}" data-name="${escapeXml(layer.name)}" opacity="${round(layer.opacity)}">${body}</g>`;
+  });
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    defs.length > 0 ? `<defs>${defs.join('')}</defs>` : '',
+    background ? `<rect width="${width}" height="${height}" fill="${escapeXml(background)}"/>` : '',
+    ...groups,
+    '</svg>'
+  ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,218 @@
+import { createPcmBlob } from './audioUtils';
+import { PcmChunk } from './coachSession';
+
+export const CAPTURE_SAMPLE_RATE = 16000;
+const CHUNK_MS = 100;
+
+// 'vad' sends only detected speech, 'open' sends everything (push-to-talk held)
+// and 'closed' sends nothing.
+export type MicGate = 'vad' | 'open' | 'closed';
+
+export interface VadOptions {
+  // Minimum RMS that can count as speech, whatever the noise floor.
+  threshold: number;
+  // Speech must be this many times louder than the tracked noise floor.
+  noiseRatio: number;
+  // Keep sending this long after the last voiced chunk so word endings aren't cut.
+  hangoverMs: number;
+  // Audio kept from just before speech starts, so the first syllable isn't lost.
+  prerollMs: number;
+}
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  threshold: 0.01,
+  noiseRatio: 3,
+  hangoverMs: 600,
+  prerollMs: 200
+};
+
+export interface VoiceActivityDetector {
+  update: (rms: number, now: number) => boolean;
+  reset: () => void;
+}
+
+export function createVoiceActivityDetector(options: VadOptions = DEFAULT_VAD_OPTIONS): VoiceActivityDetector {
+  let noiseFloor = options.threshold / options.noiseRatio;
+  let lastVoiceAt = -Infinity;
+
+  return {
+    update: (rms, now) => {
+      const voiced = rms >= Math.max(options.threshold, noiseFloor * options.noiseRatio);
+      if (voiced) {
+        lastVoiceAt = now;
+      } else {
+        // Follow the room noise slowly, and only while nobody is talking
+        noiseFloor = noiseFloor * 0.95 + rms * 0.05;
+      }
+      return now - lastVoiceAt <= options.hangoverMs;
+    },
+    reset: () => {
+      lastVoiceAt = -Infinity;
+    }
+  };
+}
+
+// Runs on the audio thread. It is kept as a string and loaded from a Blob URL
+// so it works whether or not the app is bundled. Downsampling averages the
+// input samples under each output sample (a box filter against aliasing);
+// upsampling interpolates linearly. Either way any device rate ends up at the
+// target rate.
+const WORKLET_SOURCE = `
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    const { targetRate, chunkMs } = options.processorOptions;
+    this.ratio = sampleRate / targetRate;
+    this.chunkSize = Math.round(targetRate * chunkMs / 1000);
+    this.chunk = new Float32Array(this.chunkSize);
+    this.filled = 0;
+    this.pending = new Float32Array(0);
+    this.pos = 0;
+  }
+
+  push(sample) {
+    this.chunk[this.filled++] = sample;
+    if (this.filled < this.chunkSize) return;
+    let sum = 0;
+    for (let i = 0; i < this.chunkSize; i++) sum += this.chunk[i] * this.chunk[i];
+    const rms = Math.sqrt(sum / this.chunkSize);
+    this.port.postMessage({ samples: this.chunk, rms }, [this.chunk.buffer]);
+    this.chunk = new Float32Array(this.chunkSize);
+    this.filled = 0;
+  }
+
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+
+    const input = new Float32Array(this.pending.length + channel.length);
+    input.set(this.pending);
+    input.set(channel, this.pending.length);
+
+    while (true) {
+      const start = Math.floor(this.pos);
+      if (this.ratio >= 1) {
+        const end = Math.floor(this.pos + this.ratio);
+        if (end > input.length) break;
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += input[i];
+        this.push(sum / (end - start));
+      } else {
+        if (start + 1 >= input.length) break;
+        const frac = this.pos - start;
+        this.push(input[start] * (1 - frac) + input[start + 1] * frac);
+      }
+      this.pos += this.ratio;
+    }
+
+    const consumed = Math.floor(this.pos);
+    this.pending = input.slice(consumed);
+    this.pos -= consumed;
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
+`;
+
+export interface AudioCaptureOptions {
+  onChunk: (chunk: PcmChunk) => void;
+  // Fired when sending stops after speech, so the coach can flush what it heard.
+  onSpeechEnd?: () => void;
+  onSpeakingChange?: (speaking: boolean) => void;
+  vad?: VadOptions;
+}
+
+export interface AudioCapture {
+  setGate: (gate: MicGate) => void;
+  // Stops the microphone and closes the audio context.
+  stop: () => Promise<void>;
+}
+
+export async function startAudioCapture(options: AudioCaptureOptions): Promise<AudioCapture> {
+  const { onChunk, onSpeechEnd, onSpeakingChange, vad: vadOptions = DEFAULT_VAD_OPTIONS } = options;
+
+  // Created before any await, while the click that started the session still
+  // counts as a user gesture; otherwise the context can start suspended.
+  // Use the device's native rate; the worklet does the conversion
+  const context = new (window.AudioContext || (window as any).webkitAudioContext)();
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true }
+    });
+  } catch (err) {
+    await context.close();
+    throw err;
+  }
+  // The permission prompt can still leave it suspended
+  if (context.state === 'suspended') await context.resume().catch(() => undefined);
+  const moduleUrl = URL.createObjectURL(new Blob([WORKLET_SOURCE], { type: 'application/javascript' }));
+
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+  } catch (err) {
+    stream.getTracks().forEach(track => track.stop());
+    await context.close();
+    throw err;
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+
+  const source = context.createMediaStreamSource(stream);
+  const worklet = new AudioWorkletNode(context, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    processorOptions: { targetRate: CAPTURE_SAMPLE_RATE, chunkMs: CHUNK_MS }
+  });
+
+  const vad = createVoiceActivityDetector(vadOptions);
+  const prerollSize = Math.max(0, Math.round(vadOptions.prerollMs / CHUNK_MS));
+  const preroll: Float32Array[] = [];
+  let gate: MicGate = 'vad';
+  let sending = false;
+
+  const setSending = (next: boolean) => {
+    if (next === sending) return;
+    sending = next;
+    onSpeakingChange?.(next);
+    if (!next) onSpeechEnd?.();
+  };
+
+  worklet.port.onmessage = (e: MessageEvent<{ samples: Float32Array; rms: number }>) => {
+    const { samples, rms } = e.data;
+    const voiced = vad.update(rms, performance.now());
+    const shouldSend = gate === 'open' || (gate === 'vad' && voiced);
+
+    if (!shouldSend) {
+      setSending(false);
+      preroll.push(samples);
+      if (preroll.length > prerollSize) preroll.shift();
+      return;
+    }
+    if (!sending) {
+      preroll.forEach(buffered => onChunk(createPcmBlob(buffered)));
+      preroll.length = 0;
+    }
+    setSending(true);
+    onChunk(createPcmBlob(samples));
+  };
+
+  source.connect(worklet);
+
+  return {
+    setGate: (next) => {
+      gate = next;
+      if (next === 'closed') setSending(false);
+      vad.reset();
+    },
+    stop: async () => {
+      worklet.port.onmessage = null;
+      source.disconnect();
+      worklet.disconnect();
+      stream.getTracks().forEach(track => track.stop());
+      setSending(false);
+      if (context.state !== 'closed') await context.close();
+    }
+  };
+}
@@ -0,0 +1,11 @@
+import { CoachProvider } from './coachSession';
+import { createGeminiCoach } from './geminiCoach';
+import { createMockCoach } from './mockCoach';
+
+// `?coach=mock` in the URL wins over the COACH_PROVIDER env setting, so the
+// mock can be opened without restarting the dev server.
+export function createCoachProvider(): CoachProvider {
+  const requested = new URLSearchParams(window.location.search).get('coach') ?? process.env.COACH_PROVIDER;
+  if (requested === 'mock') return createMockCoach();
+  return createGeminiCoach(process.env.API_KEY);
+}
@@ -0,0 +1,86 @@
+export interface PcmChunk {
+  data: string;
+  mimeType: string;
+}
+
+// The JSON Schema subset used for tool parameters; each provider translates it.
+export interface CoachToolSchema {
+  type: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, CoachToolSchema>;
+  items?: CoachToolSchema;
+  required?: string[];
+}
+
+export interface CoachToolDeclaration {
+  name: string;
+  description: string;
+  parameters?: CoachToolSchema;
+}
+
+export interface CoachToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface CoachToolResponse {
+  id: string;
+  name: string;
+  response: Record<string, unknown>;
+}
+
+export interface CoachCallbacks {
+  onOpen: () => void;
+  onInputTranscription: (text: string) => void;
+  onOutputTranscription: (text: string) => void;
+  // Base64 16-bit PCM at 24 kHz, mono.
+  onAudio: (data: string) => void;
+  onInterrupted: () => void;
+  onTurnComplete: () => void;
+  // Runs the functions the coach called; the provider sends the responses back.
+  onToolCall: (calls: CoachToolCall[]) => CoachToolResponse[];
+  onError: (error: unknown) => void;
+  onClose: () => void;
+}
+
+export interface CoachConnectOptions {
+  systemInstruction: string;
+  voiceName: string;
+  tools?: CoachToolDeclaration[];
+  callbacks: CoachCallbacks;
+}
+
+export interface CoachTextOptions {
+  // Base64 JPEGs sent in the same turn as the text, in order.
+  images?: string[];
+  // When false the text is added as context and the coach is not asked to reply.
+  turnComplete?: boolean;
+}
+
+// A one-off request outside the live session, e.g. writing the end-of-session report.
+export interface CoachGenerateOptions {
+  systemInstruction: string;
+  prompt: string;
+  // Base64 JPEGs placed before the prompt, in order.
+  images?: string[];
+  // When set the reply is JSON matching this schema instead of prose.
+  responseSchema?: CoachToolSchema;
+}
+
+export interface CoachSession {
+  sendAudio: (chunk: PcmChunk) => void;
+  // Tells the coach the microphone went quiet so it can act on what it heard.
+  endAudioStream: () => void;
+  sendFrame: (jpegBase64: string) => void;
+  sendText: (text: string, options?: CoachTextOptions) => void;
+  close: () => void;
+}
+
+export interface CoachProvider {
+  readonly name: string;
+  connect: (options: CoachConnectOptions) => Promise<CoachSession>;
+  // Resolves with the reply text.
+  generate: (options: CoachGenerateOptions) => Promise<string>;
+}
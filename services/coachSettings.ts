@@ -0,0 +1,52 @@
+import { CoachSettings } from '../types';
+import {
+  COACH_LANGUAGES, COACH_TONE_INSTRUCTIONS, COACH_VOICES, DEFAULT_COACH_SETTINGS, FEEDBACK_FREQUENCY_INSTRUCTIONS, SKILL_LEVEL_INSTRUCTIONS
+} from '../constants';
+
+const COACH_SETTINGS_KEY = 'artis.coachSettings';
+
+// Unknown or missing values (from older versions, or edited by hand) fall back to the defaults.
+export function loadCoachSettings(): CoachSettings {
+  try {
+    const raw = localStorage.getItem(COACH_SETTINGS_KEY);
+    const saved: Partial<CoachSettings> = raw ? JSON.parse(raw) : {};
+    const settings = { ...DEFAULT_COACH_SETTINGS, ...saved };
+    return {
+      frequency: settings.frequency in FEEDBACK_FREQUENCY_INSTRUCTIONS ? settings.frequency : DEFAULT_COACH_SETTINGS.frequency,
+      tone: settings.tone in COACH_TONE_INSTRUCTIONS ? settings.tone : DEFAULT_COACH_SETTINGS.tone,
+      skillLevel: settings.skillLevel in SKILL_LEVEL_INSTRUCTIONS ? settings.skillLevel : DEFAULT_COACH_SETTINGS.skillLevel,
+      voice: COACH_VOICES.some(v => v.id === settings.voice) ? settings.voice : DEFAULT_COACH_SETTINGS.voice,
+      language: COACH_LANGUAGES.includes(settings.language) ? settings.language : DEFAULT_COACH_SETTINGS.language
+    };
+  } catch {
+    return DEFAULT_COACH_SETTINGS;
+  }
+}
+
+export function saveCoachSettings(settings: CoachSettings): CoachSettings {
+  localStorage.setItem(COACH_SETTINGS_KEY, JSON.stringify(settings));
+  return settings;
+}
+
+const languageInstruction = (settings: CoachSettings) => settings.language === 'English'
+  ? ''
+  : `\nLANGUAGE: Always speak and write in ${settings.language}, even though these instructions and the context messages are in English.`;
+
+// The part of the system instruction that follows the student's settings.
+export function formatCoachStyle(settings: CoachSettings): string {
+  return [
+    '',
+    FEEDBACK_FREQUENCY_INSTRUCTIONS[settings.frequency],
+    COACH_TONE_INSTRUCTIONS[settings.tone],
+    SKILL_LEVEL_INSTRUCTIONS[settings.skillLevel]
+  ].join('\n') + languageInstruction(settings);
+}
+
+// Same, for one-off written critiques, where how often to speak up doesn't apply.
+export function formatWrittenStyle(settings: CoachSettings): string {
+  return [
+    '',
+    COACH_TONE_INSTRUCTIONS[settings.tone],
+    SKILL_LEVEL_INSTRUCTIONS[settings.skillLevel]
+  ].join('\n') + languageInstruction(settings);
+}
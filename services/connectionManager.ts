@@ -0,0 +1,155 @@
+import { TranscriptionItem } from '../types';
+import { CoachCallbacks, CoachConnectOptions, CoachProvider, CoachSession } from './coachSession';
+
+export type ConnectionStatus = 'idle' | 'connecting' | 'live' | 'reconnecting' | 'failed';
+
+export interface ConnectionManagerOptions {
+  provider: CoachProvider;
+  // Called before every attempt, so a reconnect picks up the latest context.
+  buildConnectOptions: () => Omit<CoachConnectOptions, 'callbacks'>;
+  callbacks: Omit<CoachCallbacks, 'onOpen' | 'onClose' | 'onError'>;
+  onStatusChange: (status: ConnectionStatus, error: string | null) => void;
+  onSessionReady: (session: CoachSession, resumed: boolean) => void;
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+export interface ConnectionManager {
+  start: () => void;
+  stop: () => void;
+  readonly status: ConnectionStatus;
+  readonly session: CoachSession | null;
+}
+
+const describeError = (error: unknown): string => {
+  if (error instanceof Error) return error.message;
+  if (error instanceof Event) return 'The connection to the coach was lost.';
+  return typeof error === 'string' ? error : 'The connection to the coach was lost.';
+};
+
+export function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+}
+
+export function createConnectionManager(options: ConnectionManagerOptions): ConnectionManager {
+  const {
+    provider, buildConnectOptions, callbacks, onStatusChange, onSessionReady,
+    maxAttempts = 5, baseDelayMs = 1000, maxDelayMs = 15000
+  } = options;
+
+  let status: ConnectionStatus = 'idle';
+  let session: CoachSession | null = null;
+  let hasBeenLive = false;
+  let attempt = 0;
+  // Bumped on every attempt and on stop; callbacks from older sessions are ignored.
+  let generation = 0;
+  let retryTimer: number | null = null;
+
+  const setStatus = (next: ConnectionStatus, error: string | null = null) => {
+    status = next;
+    onStatusChange(next, error);
+  };
+
+  const clearRetry = () => {
+    if (retryTimer !== null) {
+      window.clearTimeout(retryTimer);
+      retryTimer = null;
+    }
+  };
+
+  const handleDrop = (gen: number, error: unknown) => {
+    if (gen !== generation || status === 'idle' || status === 'failed') return;
+    generation++;
+    const dropped = session;
+    session = null;
+    dropped?.close();
+
+    if (attempt >= maxAttempts) {
+      setStatus('failed', describeError(error));
+      return;
+    }
+    setStatus(hasBeenLive ? 'reconnecting' : 'connecting', describeError(error));
+    retryTimer = window.setTimeout(connect, backoffDelay(attempt, baseDelayMs, maxDelayMs));
+  };
+
+  const connect = async () => {
+    retryTimer = null;
+    const gen = ++generation;
+    attempt++;
+    let opened = false;
+    let resolved: CoachSession | null = null;
+
+    // The provider may fire onOpen before or after connect() resolves
+    const maybeReady = () => {
+      if (gen !== generation || !opened || !resolved) return;
+      const resumed = hasBeenLive;
+      session = resolved;
+      hasBeenLive = true;
+      attempt = 0;
+      setStatus('live');
+      onSessionReady(resolved, resumed);
+    };
+
+    try {
+      const connected = await provider.connect({
+        ...buildConnectOptions(),
+        callbacks: {
+          ...callbacks,
+          onOpen: () => {
+            opened = true;
+            maybeReady();
+          },
+          onError: (error) => {
+            console.error('Session error:', error);
+            handleDrop(gen, error);
+          },
+          onClose: () => handleDrop(gen, 'The connection to the coach was closed.')
+        }
+      });
+      if (gen !== generation) {
+        connected.close();
+        return;
+      }
+      resolved = connected;
+      maybeReady();
+    } catch (error) {
+      console.error('Failed to connect to coach:', error);
+      handleDrop(gen, error);
+    }
+  };
+
+  return {
+    start: () => {
+      if (status !== 'idle') return;
+      hasBeenLive = false;
+      attempt = 0;
+      setStatus('connecting');
+      connect();
+    },
+    stop: () => {
+      clearRetry();
+      generation++;
+      const current = session;
+      session = null;
+      setStatus('idle');
+      current?.close();
+    },
+    get status() {
+      return status;
+    },
+    get session() {
+      return session;
+    }
+  };
+}
+
+// Sent after a reconnect so the coach can pick up where it left off.
+export function formatResumeSummary(transcript: TranscriptionItem[], maxItems: number = 12): string {
+  const recent = transcript.slice(-maxItems);
+  const lines = recent.map(t => `${t.type === 'user' ? 'Student' : 'Coach'}: ${t.text.trim()}`);
+  return [
+    '[SESSION RESUMED] The connection dropped and has been restored. Continue coaching from where you left off without greeting the student again.',
+    lines.length > 0 ? `Conversation so far (most recent last):\n${lines.join('\n')}` : 'Nothing had been said yet.'
+  ].join('\n');
+}
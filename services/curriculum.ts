@@ -0,0 +1,130 @@
+import { Lesson, LessonRunState, LessonStep, TrackingMode } from '../types';
+
+const COMPLETED_LESSONS_KEY = 'artis.completedLessons';
+
+export function loadCompletedLessons(): string[] {
+  try {
+    const raw = localStorage.getItem(COMPLETED_LESSONS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function markLessonCompleted(lessonId: string): string[] {
+  const completed = loadCompletedLessons();
+  if (!completed.includes(lessonId)) {
+    completed.push(lessonId);
+    localStorage.setItem(COMPLETED_LESSONS_KEY, JSON.stringify(completed));
+  }
+  return completed;
+}
+
+export function missingPrerequisites(lesson: Lesson, lessons: Lesson[], completed: string[]): Lesson[] {
+  return (lesson.prerequisites ?? [])
+    .filter(id => !completed.includes(id))
+    .map(id => lessons.find(l => l.id === id))
+    .filter((l): l is Lesson => !!l);
+}
+
+export function startLessonRun(lesson: Lesson, drawnCount: number, now: number = Date.now()): LessonRunState {
+  return {
+    lessonId: lesson.id,
+    stepIndex: 0,
+    stepStartedAt: now,
+    stepStrokeBase: drawnCount,
+    completed: lesson.steps.length === 0
+  };
+}
+
+export function currentStep(lesson: Lesson, run: LessonRunState): LessonStep | null {
+  return run.completed ? null : lesson.steps[run.stepIndex] ?? null;
+}
+
+export function goToStep(
+  lesson: Lesson,
+  run: LessonRunState,
+  index: number,
+  drawnCount: number,
+  now: number = Date.now(),
+): LessonRunState {
+  if (index >= lesson.steps.length) {
+    return { ...run, stepIndex: lesson.steps.length - 1, completed: true };
+  }
+  return {
+    ...run,
+    stepIndex: Math.max(0, index),
+    stepStartedAt: now,
+    stepStrokeBase: drawnCount,
+    completed: false
+  };
+}
+
+export function advanceLessonRun(lesson: Lesson, run: LessonRunState, drawnCount: number, now: number = Date.now()): LessonRunState {
+  return goToStep(lesson, run, run.stepIndex + 1, drawnCount, now);
+}
+
+// Seconds left on a timed step, or null when the step has no time limit.
+export function stepTimeRemaining(step: LessonStep, run: LessonRunState, now: number = Date.now()): number | null {
+  if (!step.timeLimitSec) return null;
+  return Math.max(0, step.timeLimitSec - (now - run.stepStartedAt) / 1000);
+}
+
+// `drawnCount` counts every mark-making stroke since the app started and never goes
+// down, so clearing or undoing doesn't stall a step's progress.
+export function stepStrokesDrawn(run: LessonRunState, drawnCount: number): number {
+  return Math.max(0, drawnCount - run.stepStrokeBase);
+}
+
+// Stroke counts only exist in the Digital Studio, so in the physical
+// sketchbook every criterion falls back to the student pressing Next.
+export function isStepComplete(
+  step: LessonStep,
+  run: LessonRunState,
+  drawnCount: number,
+  mode: TrackingMode,
+  now: number = Date.now(),
+): boolean {
+  const remaining = stepTimeRemaining(step, run, now);
+  if (remaining !== null && remaining <= 0) return true;
+
+  switch (step.completion.type) {
+    case 'strokes':
+      return mode === 'digital' && stepStrokesDrawn(run, drawnCount) >= step.completion.count;
+    case 'manual':
+      return false;
+  }
+}
+
+export function formatLessonOutline(lesson: Lesson): string {
+  const steps = lesson.steps.map((step, i) =>
+    `${i + 1}. ${step.title}${step.timeLimitSec ? ` (${step.timeLimitSec}s)` : ''}: ${step.instruction}`
+  );
+  return [
+    `LESSON: ${lesson.title}. GOAL: ${lesson.description}`,
+    `FOCUS: ${lesson.focus.toUpperCase()}.`,
+    'The lesson is run step by step. You will receive a [LESSON STEP] message whenever the step changes; read its instruction to the student and coach them against that step only.',
+    'STEPS:',
+    ...steps,
+    lesson.coachInstructions ? `TEACHER'S NOTES FOR YOU: ${lesson.coachInstructions}` : '',
+    lesson.references?.length ? `This lesson comes with ${lesson.references.length} reference image(s); they arrive in a [LESSON REFERENCES] message.` : ''
+  ].filter(Boolean).join('\n');
+}
+
+// Sent together with the lesson's reference images, in the same order.
+export function formatLessonReferences(lesson: Lesson): string {
+  const names = (lesson.references ?? []).map((ref, i) => `${i + 1}. ${ref.name}`).join('; ');
+  return `[LESSON REFERENCES] The images above are the reference images for "${lesson.title}": ${names}. Refer to them when the steps call for it and compare the student's work against them.`;
+}
+
+export function formatStepPrompt(lesson: Lesson, run: LessonRunState): string {
+  const step = currentStep(lesson, run);
+  if (!step) {
+    return `[LESSON STEP] The student has finished every step of "${lesson.title}". Congratulate them and sum up what they practised.`;
+  }
+  return [
+    `[LESSON STEP ${run.stepIndex + 1}/${lesson.steps.length}] ${step.title}`,
+    `Read this instruction to the student now: ${step.instruction}`,
+    step.timeLimitSec ? `This step is timed: ${step.timeLimitSec} seconds.` : ''
+  ].filter(Boolean).join('\n');
+}
@@ -0,0 +1,175 @@
+// Decides which frames are worth sending to the coach. Each polled frame is
+// shrunk to a small grayscale signature and compared with the last frame that
+// was sent; unchanged frames are skipped, big changes and finished strokes go
+// out as soon as the minimum interval allows, and resolution/quality step down
+// (and sends are held) when the byte budget is exceeded.
+
+const SIGNATURE_SIZE = 32;
+
+export interface FrameQualityLevel {
+  maxDimension: number;
+  quality: number;
+}
+
+export interface FrameSchedulerOptions {
+  // Target upload rate for frames, in bytes per second.
+  budgetBytesPerSec: number;
+  // Mean per-pixel change (0..1) that counts as "something changed".
+  changeThreshold: number;
+  // Change large enough to skip the normal pacing for ordinary changes.
+  bigChangeThreshold: number;
+  // No frame goes out sooner than this after the last one, whatever the reason.
+  minIntervalMs: number;
+  // Pacing for ordinary changes.
+  changeIntervalMs: number;
+  // Send at least this often even when nothing changed, so the coach's view never goes stale.
+  heartbeatMs: number;
+  // Best first; the scheduler moves down the ladder when over budget.
+  levels: FrameQualityLevel[];
+}
+
+export interface FrameSchedulerStats {
+  sent: number;
+  skipped: number;
+  level: number;
+  bytesPerSec: number;
+}
+
+export type FrameSendReason = 'first' | 'requested' | 'big-change' | 'changed' | 'heartbeat';
+
+export interface ScheduledFrame {
+  data: string;
+  reason: FrameSendReason;
+}
+
+export interface FrameScheduler {
+  // Returns an encoded JPEG when this frame should be sent, otherwise null.
+  next: (source: HTMLCanvasElement, now?: number) => ScheduledFrame | null;
+  // Send the next frame that differs at all from the last one, e.g. after a stroke ends.
+  requestImmediate: () => void;
+  reset: () => void;
+  readonly stats: FrameSchedulerStats;
+}
+
+// Window over which the upload rate is measured.
+const BUDGET_WINDOW_MS = 10000;
+// Below this share of the budget the scheduler tries the next better level.
+const UPGRADE_HEADROOM = 0.5;
+// Changes smaller than this are sensor noise, even when a frame was requested.
+const NOISE_FLOOR = 0.002;
+
+export function frameSignature(source: CanvasImageSource, ctx: CanvasRenderingContext2D): Uint8Array {
+  ctx.drawImage(source, 0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+  const { data } = ctx.getImageData(0, 0, SIGNATURE_SIZE, SIGNATURE_SIZE);
+  const gray = new Uint8Array(SIGNATURE_SIZE * SIGNATURE_SIZE);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+}
+
+// Mean absolute difference between two signatures, 0 (identical) to 1.
+export function signatureDelta(a: Uint8Array, b: Uint8Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += Math.abs(a[i] - b[i]);
+  return sum / (a.length * 255);
+}
+
+export function createFrameScheduler(options: FrameSchedulerOptions): FrameScheduler {
+  const signatureCanvas = document.createElement('canvas');
+  signatureCanvas.width = SIGNATURE_SIZE;
+  signatureCanvas.height = SIGNATURE_SIZE;
+  const signatureCtx = signatureCanvas.getContext('2d', { willReadFrequently: true })!;
+  const encodeCanvas = document.createElement('canvas');
+
+  let lastSignature: Uint8Array | null = null;
+  let lastSentAt = 0;
+  let requested = false;
+  let level = 0;
+  let sent = 0;
+  let skipped = 0;
+  let history: { at: number; bytes: number }[] = [];
+
+  const bytesPerSec = (now: number) => {
+    history = history.filter(h => now - h.at <= BUDGET_WINDOW_MS);
+    return history.reduce((sum, h) => sum + h.bytes, 0) / (BUDGET_WINDOW_MS / 1000);
+  };
+
+  const adjustLevel = (now: number) => {
+    const rate = bytesPerSec(now);
+    if (rate > options.budgetBytesPerSec && level < options.levels.length - 1) {
+      level++;
+    } else if (rate < options.budgetBytesPerSec * UPGRADE_HEADROOM && level > 0) {
+      level--;
+    }
+  };
+
+  const encode = (source: HTMLCanvasElement): string | null => {
+    const { maxDimension, quality } = options.levels[level];
+    const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+    encodeCanvas.width = Math.max(1, Math.round(source.width * scale));
+    encodeCanvas.height = Math.max(1, Math.round(source.height * scale));
+    const ctx = encodeCanvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(source, 0, 0, encodeCanvas.width, encodeCanvas.height);
+    return encodeCanvas.toDataURL('image/jpeg', quality).split(',')[1];
+  };
+
+  return {
+    next: (source, now = Date.now()) => {
+      if (!source.width || !source.height) return null;
+      const signature = frameSignature(source, signatureCtx);
+      const delta = lastSignature ? signatureDelta(signature, lastSignature) : 1;
+      const elapsed = now - lastSentAt;
+
+      let reason: FrameSendReason | null = null;
+      if (!lastSignature) reason = 'first';
+      else if (elapsed < options.minIntervalMs) reason = null;
+      else if (requested && delta > NOISE_FLOOR) reason = 'requested';
+      else if (delta >= options.bigChangeThreshold) reason = 'big-change';
+      else if (delta >= options.changeThreshold && elapsed >= options.changeIntervalMs) reason = 'changed';
+      else if (elapsed >= options.heartbeatMs) reason = 'heartbeat';
+      // A request is settled by the first frame it can be judged on; if nothing changed it is dropped,
+      // so a later unrelated change doesn't go out as a finished stroke
+      if (requested && reason !== 'requested' && lastSignature && elapsed >= options.minIntervalMs) requested = false;
+
+      // While the budget is spent, hold the send (a request stays pending) and drop a level
+      if (reason && reason !== 'first' && bytesPerSec(now) > options.budgetBytesPerSec) {
+        if (level < options.levels.length - 1) level++;
+        reason = null;
+      }
+
+      if (!reason) {
+        skipped++;
+        return null;
+      }
+
+      adjustLevel(now);
+      const data = encode(source);
+      if (!data) return null;
+
+      requested = false;
+      lastSignature = signature;
+      lastSentAt = now;
+      sent++;
+      // Base64 length is a close enough stand-in for bytes on the wire
+      history.push({ at: now, bytes: data.length });
+      return { data, reason };
+    },
+    requestImmediate: () => {
+      requested = true;
+    },
+    reset: () => {
+      lastSignature = null;
+      lastSentAt = 0;
+      requested = false;
+      level = 0;
+      sent = 0;
+      skipped = 0;
+      history = [];
+    },
+    get stats() {
+      return { sent, skipped, level, bytesPerSec: bytesPerSec(Date.now()) };
+    }
+  };
+}
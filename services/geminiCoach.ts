@@ -0,0 +1,118 @@
+import { GoogleGenAI, Modality, Schema, Type } from '@google/genai';
+import { GEMINI_LIVE_MODEL, GEMINI_TEXT_MODEL } from '../constants';
+import { CoachConnectOptions, CoachGenerateOptions, CoachProvider, CoachSession, CoachToolSchema } from './coachSession';
+
+// Gemini spells JSON Schema types in upper case.
+function toGeminiSchema(schema: CoachToolSchema): Schema {
+  return {
+    type: schema.type.toUpperCase() as Type,
+    description: schema.description,
+    enum: schema.enum,
+    required: schema.required,
+    items: schema.items && toGeminiSchema(schema.items),
+    properties: schema.properties && Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    )
+  };
+}
+
+export function createGeminiCoach(apiKey: string | undefined): CoachProvider {
+  return {
+    name: 'gemini',
+    connect: async ({ systemInstruction, voiceName, tools, callbacks }: CoachConnectOptions): Promise<CoachSession> => {
+      const ai = new GoogleGenAI({ apiKey });
+      const session = await ai.live.connect({
+        model: GEMINI_LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          systemInstruction,
+          speechConfig: {
+            voiceConfig: { prebuiltVoiceConfig: { voiceName } }
+          },
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          tools: tools && tools.length > 0 ? [{
+            functionDeclarations: tools.map(tool => ({
+              name: tool.name,
+              description: tool.description,
+              parameters: tool.parameters && toGeminiSchema(tool.parameters)
+            }))
+          }] : undefined
+        },
+        callbacks: {
+          onopen: callbacks.onOpen,
+          onmessage: (msg) => {
+            const functionCalls = msg.toolCall?.functionCalls;
+            if (functionCalls && functionCalls.length > 0) {
+              const functionResponses = callbacks.onToolCall(functionCalls.map(call => ({
+                id: call.id ?? '',
+                name: call.name ?? '',
+                args: call.args ?? {}
+              })));
+              session.sendToolResponse({ functionResponses });
+            }
+            const content = msg.serverContent;
+            if (!content) return;
+            if (content.inputTranscription?.text) {
+              callbacks.onInputTranscription(content.inputTranscription.text);
+            }
+            if (content.outputTranscription?.text) {
+              callbacks.onOutputTranscription(content.outputTranscription.text);
+            }
+            const audioData = content.modelTurn?.parts?.[0]?.inlineData?.data;
+            if (audioData) {
+              callbacks.onAudio(audioData);
+            }
+            if (content.interrupted) {
+              callbacks.onInterrupted();
+            }
+            if (content.turnComplete) {
+              callbacks.onTurnComplete();
+            }
+          },
+          onerror: callbacks.onError,
+          onclose: callbacks.onClose
+        }
+      });
+
+      return {
+        sendAudio: (chunk) => session.sendRealtimeInput({ media: chunk }),
+        endAudioStream: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+        sendFrame: (jpegBase64) => session.sendRealtimeInput({
+          media: { data: jpegBase64, mimeType: 'image/jpeg' }
+        }),
+        sendText: (text, options = {}) => {
+          const { images = [], turnComplete = true } = options;
+          if (images.length === 0) {
+            session.sendClientContent({ turns: text, turnComplete });
+            return;
+          }
+          session.sendClientContent({
+            turns: [{
+              role: 'user',
+              parts: [...images.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } })), { text }]
+            }],
+            turnComplete
+          });
+        },
+        close: () => session.close()
+      };
+    },
+    generate: async ({ systemInstruction, prompt, images = [], responseSchema }: CoachGenerateOptions): Promise<string> => {
+      const ai = new GoogleGenAI({ apiKey });
+      const response = await ai.models.generateContent({
+        model: GEMINI_TEXT_MODEL,
+        contents: [{
+          role: 'user',
+          parts: [...images.map(data => ({ inlineData: { mimeType: 'image/jpeg', data } })), { text: prompt }]
+        }],
+        config: {
+          systemInstruction,
+          responseMimeType: responseSchema ? 'application/json' : undefined,
+          responseSchema: responseSchema && toGeminiSchema(responseSchema)
+        }
+      });
+      return response.text ?? '';
+    }
+  };
+}
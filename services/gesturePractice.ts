@@ -0,0 +1,88 @@
+import { GestureReference, GestureRunState } from '../types';
+
+const IMAGE_EXTENSIONS = /\.(png|jpe?g|gif|webp|bmp|avif)$/i;
+
+// Picks the image files out of a file or folder selection, in name order.
+// Each reference holds an object URL; release them with releaseReferences.
+export function loadReferenceFiles(files: FileList | File[]): GestureReference[] {
+  return Array.from(files)
+    .filter(file => file.type.startsWith('image/') || IMAGE_EXTENSIONS.test(file.name))
+    .sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name))
+    .map(file => ({ id: crypto.randomUUID(), name: file.name, url: URL.createObjectURL(file) }));
+}
+
+export function releaseReferences(references: GestureReference[]) {
+  references.forEach(r => URL.revokeObjectURL(r.url));
+}
+
+export function shuffleReferences(references: GestureReference[]): GestureReference[] {
+  const shuffled = [...references];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+export function startGestureRun(references: GestureReference[], durationSec: number, now: number = Date.now()): GestureRunState {
+  return { references, index: 0, durationSec, poseStartedAt: now, pausedAt: null, finished: references.length === 0 };
+}
+
+export function currentReference(run: GestureRunState): GestureReference | null {
+  return run.finished ? null : run.references[run.index] ?? null;
+}
+
+export function poseTimeRemaining(run: GestureRunState, now: number = Date.now()): number {
+  const elapsed = (run.pausedAt ?? now) - run.poseStartedAt;
+  return Math.max(0, run.durationSec * 1000 - elapsed);
+}
+
+export function pauseGestureRun(run: GestureRunState, now: number = Date.now()): GestureRunState {
+  return run.pausedAt !== null ? run : { ...run, pausedAt: now };
+}
+
+// Resuming pushes the pose start forward by the length of the pause.
+export function resumeGestureRun(run: GestureRunState, now: number = Date.now()): GestureRunState {
+  if (run.pausedAt === null) return run;
+  return { ...run, poseStartedAt: run.poseStartedAt + (now - run.pausedAt), pausedAt: null };
+}
+
+export function advanceGestureRun(run: GestureRunState, now: number = Date.now()): GestureRunState {
+  const index = run.index + 1;
+  if (index >= run.references.length) return { ...run, index: run.references.length, pausedAt: null, finished: true };
+  return { ...run, index, poseStartedAt: now, pausedAt: null };
+}
+
+// Draws an image URL onto a canvas no larger than maxDimension and returns it as base64 JPEG.
+export function loadImageAsJpeg(url: string, maxDimension: number, quality: number = 0.7): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, maxDimension / Math.max(image.naturalWidth, image.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        reject(new Error('Canvas is not available'));
+        return;
+      }
+      ctx.fillStyle = '#ffffff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', quality).split(',')[1]);
+    };
+    image.onerror = () => reject(new Error(`Could not load image ${url}`));
+    image.src = url;
+  });
+}
+
+const formatDuration = (sec: number) => sec < 60 ? `${sec}s` : `${sec / 60}m`;
+
+export function formatGesturePrompt(run: GestureRunState, reference: GestureReference, hasReferenceImage: boolean): string {
+  const images = hasReferenceImage
+    ? 'The first image is the reference pose and the second is the student\'s drawing.'
+    : 'The reference image could not be attached; the image is the student\'s drawing.';
+  return `[GESTURE POSE ${run.index + 1}/${run.references.length}] The ${formatDuration(run.durationSec)} pose "${reference.name}" just ended. ${images} ` +
+    'Compare the line of action, the tilt of the shoulders and hips, and the weight distribution. Name the biggest difference in one or two sentences, then let the student move on.';
+}
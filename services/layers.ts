@@ -0,0 +1,52 @@
+import { Layer } from '../types';
+
+export function createLayer(name: string, overrides: Partial<Omit<Layer, 'id' | 'name'>> = {}): Layer {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    visible: true,
+    locked: false,
+    opacity: 1,
+    sendToCoach: true,
+    ...overrides
+  };
+}
+
+// Loose construction shapes underneath, clean line work on top. Layers are
+// stored bottom first.
+export function createDefaultLayers(): Layer[] {
+  return [
+    createLayer('Construction', { opacity: 0.6 }),
+    createLayer('Line Art')
+  ];
+}
+
+export function updateLayer(layers: Layer[], id: string, patch: Partial<Omit<Layer, 'id'>>): Layer[] {
+  return layers.map(l => l.id === id ? { ...l, ...patch } : l);
+}
+
+// Moves a layer one step up (towards the top of the stack) or down.
+export function moveLayer(layers: Layer[], id: string, direction: 'up' | 'down'): Layer[] {
+  const index = layers.findIndex(l => l.id === id);
+  const target = direction === 'up' ? index + 1 : index - 1;
+  if (index < 0 || target < 0 || target >= layers.length) return layers;
+  const next = [...layers];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+// The layers that make up the frames the coach sees.
+export function coachLayers(layers: Layer[]): Layer[] {
+  return layers.filter(l => l.visible && l.sendToCoach);
+}
+
+export function formatLayerNote(layers: Layer[]): string {
+  const shown = coachLayers(layers);
+  const hidden = layers.filter(l => !shown.includes(l));
+  const describe = (l: Layer) => l.opacity < 1 ? `${l.name} (${Math.round(l.opacity * 100)}% opacity)` : l.name;
+  const parts = [
+    `[LAYERS] The frames now show, bottom to top: ${shown.length > 0 ? shown.map(describe).join(', ') : 'nothing'}.`
+  ];
+  if (hidden.length > 0) parts.push(`Not shown: ${hidden.map(l => l.name).join(', ')}.`);
+  return parts.join(' ');
+}
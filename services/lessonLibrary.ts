@@ -0,0 +1,269 @@
+// Custom lessons written in the lesson editor or imported from a lesson pack.
+// Everything that comes from storage or a file goes through validateLesson first,
+// so the rest of the app can trust the Lesson type.
+import { Lesson, LessonFocus, LessonReference, LessonStep, StepCompletion } from '../types';
+import { FOCUS_AREAS } from '../constants';
+
+const CUSTOM_LESSONS_KEY = 'artis.customLessons';
+export const LESSON_PACK_FORMAT = 'artis-lesson-pack';
+const LESSON_PACK_VERSION = 1;
+
+export const LESSON_LIMITS = {
+  title: 80,
+  description: 200,
+  instruction: 1000,
+  coachInstructions: 2000,
+  steps: 12,
+  references: 4,
+  timeLimitSec: 3600,
+  strokeCount: 500
+};
+
+export interface LessonPack {
+  format: typeof LESSON_PACK_FORMAT;
+  version: number;
+  exportedAt: string;
+  lessons: Lesson[];
+}
+
+export interface ValidationResult {
+  lesson: Lesson | null;
+  errors: string[];
+}
+
+type Fields = Record<string, unknown>;
+
+const isFields = (value: unknown): value is Fields => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+function readText(fields: Fields, key: string, label: string, max: number, errors: string[], optional = false): string | undefined {
+  const value = fields[key];
+  if (value === undefined || value === null || value === '') {
+    if (!optional) errors.push(`${label} is required.`);
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    errors.push(`${label} must be text.`);
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (!trimmed && !optional) errors.push(`${label} is required.`);
+  if (trimmed.length > max) errors.push(`${label} must be at most ${max} characters.`);
+  return trimmed || undefined;
+}
+
+function readCount(value: unknown, label: string, max: number, errors: string[]): number | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1 || value > max) {
+    errors.push(`${label} must be a whole number from 1 to ${max}.`);
+    return undefined;
+  }
+  return value;
+}
+
+function readCompletion(value: unknown, label: string, errors: string[]): StepCompletion {
+  if (isFields(value) && value.type === 'manual') return { type: 'manual' };
+  if (isFields(value) && value.type === 'strokes') {
+    const count = readCount(value.count, `${label} stroke count`, LESSON_LIMITS.strokeCount, errors);
+    if (value.count === undefined) errors.push(`${label} stroke count is required.`);
+    return { type: 'strokes', count: count ?? 1 };
+  }
+  errors.push(`${label} completion must be "manual" or "strokes".`);
+  return { type: 'manual' };
+}
+
+function readStep(value: unknown, index: number, errors: string[]): LessonStep {
+  const label = `Step ${index + 1}`;
+  const fields = isFields(value) ? value : {};
+  if (!isFields(value)) errors.push(`${label} must be an object.`);
+  const step: LessonStep = {
+    id: typeof fields.id === 'string' && fields.id ? fields.id : `step-${index + 1}`,
+    title: readText(fields, 'title', `${label} title`, LESSON_LIMITS.title, errors) ?? '',
+    instruction: readText(fields, 'instruction', `${label} instruction`, LESSON_LIMITS.instruction, errors) ?? '',
+    completion: readCompletion(fields.completion, label, errors)
+  };
+  const timeLimitSec = readCount(fields.timeLimitSec, `${label} time limit`, LESSON_LIMITS.timeLimitSec, errors);
+  if (timeLimitSec) step.timeLimitSec = timeLimitSec;
+  return step;
+}
+
+function readReference(value: unknown, index: number, errors: string[]): LessonReference | null {
+  const label = `Reference ${index + 1}`;
+  if (!isFields(value) || typeof value.image !== 'string' || !/^[A-Za-z0-9+/]+=*$/.test(value.image)) {
+    errors.push(`${label} must have a name and a base64 JPEG image.`);
+    return null;
+  }
+  return { name: typeof value.name === 'string' && value.name.trim() ? value.name.trim() : `Reference ${index + 1}`, image: value.image };
+}
+
+// Checks an untrusted value against the Lesson shape and returns a clean copy.
+export function validateLesson(value: unknown): ValidationResult {
+  const errors: string[] = [];
+  if (!isFields(value)) return { lesson: null, errors: ['A lesson must be an object.'] };
+
+  const focus = value.focus as LessonFocus;
+  if (!FOCUS_AREAS.some(f => f.id === focus)) {
+    errors.push(`Focus must be one of: ${FOCUS_AREAS.map(f => f.id).join(', ')}.`);
+  }
+
+  const rawSteps = Array.isArray(value.steps) ? value.steps : [];
+  if (rawSteps.length === 0) errors.push('A lesson needs at least one step.');
+  if (rawSteps.length > LESSON_LIMITS.steps) errors.push(`A lesson can have at most ${LESSON_LIMITS.steps} steps.`);
+  const steps = rawSteps.slice(0, LESSON_LIMITS.steps).map((step, i) => readStep(step, i, errors));
+  // Step ids key the lesson runner; make repeats unique
+  steps.forEach((step, i) => {
+    if (steps.findIndex(s => s.id === step.id) !== i) step.id = `${step.id}-${i + 1}`;
+  });
+
+  const rawReferences = Array.isArray(value.references) ? value.references : [];
+  if (rawReferences.length > LESSON_LIMITS.references) errors.push(`A lesson can have at most ${LESSON_LIMITS.references} reference images.`);
+  const references = rawReferences
+    .slice(0, LESSON_LIMITS.references)
+    .map((ref, i) => readReference(ref, i, errors))
+    .filter((ref): ref is LessonReference => !!ref);
+
+  const lesson: Lesson = {
+    id: typeof value.id === 'string' && value.id ? value.id : `custom-${crypto.randomUUID()}`,
+    title: readText(value, 'title', 'Title', LESSON_LIMITS.title, errors) ?? '',
+    description: readText(value, 'description', 'Description', LESSON_LIMITS.description, errors) ?? '',
+    focus,
+    steps,
+    custom: true
+  };
+  const coachInstructions = readText(value, 'coachInstructions', 'Coach instructions', LESSON_LIMITS.coachInstructions, errors, true);
+  if (coachInstructions) lesson.coachInstructions = coachInstructions;
+  if (references.length > 0) lesson.references = references;
+  if (Array.isArray(value.prerequisites)) {
+    lesson.prerequisites = value.prerequisites.filter((id): id is string => typeof id === 'string');
+  }
+
+  return { lesson: errors.length === 0 ? lesson : null, errors };
+}
+
+export function createBlankLesson(): Lesson {
+  return {
+    id: `custom-${crypto.randomUUID()}`,
+    title: '',
+    description: '',
+    focus: 'shapes',
+    steps: [{ id: 'step-1', title: '', instruction: '', completion: { type: 'manual' } }],
+    custom: true
+  };
+}
+
+export function loadCustomLessons(): Lesson[] {
+  try {
+    const raw = localStorage.getItem(CUSTOM_LESSONS_KEY);
+    const stored: unknown[] = raw ? JSON.parse(raw) : [];
+    return stored.map(item => validateLesson(item).lesson).filter((l): l is Lesson => !!l);
+  } catch {
+    return [];
+  }
+}
+
+function saveCustomLessons(lessons: Lesson[]): Lesson[] {
+  try {
+    localStorage.setItem(CUSTOM_LESSONS_KEY, JSON.stringify(lessons));
+  } catch (err) {
+    if (err instanceof DOMException && err.name === 'QuotaExceededError') {
+      throw new Error('Browser storage is full. Remove some reference images or delete unused lessons.');
+    }
+    throw err;
+  }
+  return lessons;
+}
+
+// Adds the lesson, or replaces the stored lesson with the same id.
+export function saveCustomLesson(lesson: Lesson): Lesson[] {
+  const lessons = loadCustomLessons();
+  const index = lessons.findIndex(l => l.id === lesson.id);
+  return saveCustomLessons(index >= 0 ? lessons.map(l => l.id === lesson.id ? lesson : l) : [...lessons, lesson]);
+}
+
+export function deleteCustomLesson(id: string): Lesson[] {
+  return saveCustomLessons(loadCustomLessons().filter(l => l.id !== id));
+}
+
+export function createLessonPack(lessons: Lesson[]): string {
+  const pack: LessonPack = {
+    format: LESSON_PACK_FORMAT,
+    version: LESSON_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    lessons: lessons.map(({ custom, ...lesson }) => lesson as Lesson)
+  };
+  return JSON.stringify(pack, null, 2);
+}
+
+export interface ImportResult {
+  lessons: Lesson[];
+  // One entry per lesson that was skipped, naming the problems found.
+  errors: string[];
+}
+
+// Drops the prerequisite links that close a loop, so no lesson waits on itself.
+function breakCycles(lessons: Lesson[]) {
+  const byId = new Map(lessons.map(l => [l.id, l]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const visit = (lesson: Lesson) => {
+    state.set(lesson.id, 'visiting');
+    lesson.prerequisites = lesson.prerequisites?.filter(id => {
+      const next = byId.get(id);
+      if (!next) return true;
+      if (state.get(id) === 'visiting') return false;
+      if (!state.has(id)) visit(next);
+      return true;
+    });
+    if (lesson.prerequisites?.length === 0) delete lesson.prerequisites;
+    state.set(lesson.id, 'done');
+  };
+  lessons.forEach(lesson => { if (!state.has(lesson.id)) visit(lesson); });
+}
+
+// Reads a lesson pack, or a single exported lesson. Lessons that clash with a
+// built-in id get a new one (and links to them inside the pack follow), and
+// prerequisites that can't be met or that form a loop are dropped.
+export function parseLessonPack(text: string, builtInIds: string[], customIds: string[] = []): ImportResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { lessons: [], errors: ['The file is not valid JSON.'] };
+  }
+  if (isFields(data) && data.format === LESSON_PACK_FORMAT && typeof data.version === 'number' && data.version > LESSON_PACK_VERSION) {
+    return { lessons: [], errors: ['This lesson pack was made by a newer version of the app.'] };
+  }
+  const items = isFields(data) && Array.isArray(data.lessons) ? data.lessons : Array.isArray(data) ? data : [data];
+
+  const lessons: Lesson[] = [];
+  const errors: string[] = [];
+  const renamed = new Map<string, string>();
+  items.forEach((item, i) => {
+    const { lesson, errors: problems } = validateLesson(item);
+    if (!lesson) {
+      const title = isFields(item) && typeof item.title === 'string' && item.title ? `"${item.title}"` : `Lesson ${i + 1}`;
+      errors.push(`${title}: ${problems.join(' ')}`);
+      return;
+    }
+    if (builtInIds.includes(lesson.id)) {
+      const id = `custom-${crypto.randomUUID()}`;
+      renamed.set(lesson.id, id);
+      lesson.id = id;
+    }
+    lessons.push(lesson);
+  });
+
+  const known = new Set([...builtInIds, ...customIds, ...lessons.map(l => l.id)]);
+  lessons.forEach(lesson => {
+    if (!lesson.prerequisites) return;
+    lesson.prerequisites = [...new Set(lesson.prerequisites.map(id => renamed.get(id) ?? id))]
+      .filter(id => known.has(id) && id !== lesson.id);
+    if (lesson.prerequisites.length === 0) delete lesson.prerequisites;
+  });
+  breakCycles(lessons);
+  return { lessons, errors };
+}
+
+// Stores imported lessons, replacing earlier imports of the same lessons.
+export function importCustomLessons(imported: Lesson[]): Lesson[] {
+  const ids = new Set(imported.map(l => l.id));
+  return saveCustomLessons([...loadCustomLessons().filter(l => !ids.has(l.id)), ...imported]);
+}
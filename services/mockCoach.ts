@@ -0,0 +1,154 @@
+import { encode } from './audioUtils';
+import { CoachConnectOptions, CoachGenerateOptions, CoachProvider, CoachSession, CoachToolSchema } from './coachSession';
+
+const MOCK_SAMPLE_RATE = 24000;
+// Roughly how long a spoken word takes; sets the length of the placeholder audio.
+const MS_PER_WORD = 250;
+
+export type MockCoachEvent =
+  | { delayMs: number; type: 'say'; text: string }
+  | { delayMs: number; type: 'hear'; text: string }
+  | { delayMs: number; type: 'tool'; name: string; args: Record<string, unknown> }
+  | { delayMs: number; type: 'interrupt' }
+  | { delayMs: number; type: 'close' };
+
+export type MockCoachLogEntry =
+  | { type: 'audio'; bytes: number }
+  | { type: 'audioEnd' }
+  | { type: 'frame'; bytes: number }
+  | { type: 'text'; text: string; imageCount: number; turnComplete: boolean }
+  | { type: 'toolResponse'; name: string; response: Record<string, unknown> };
+
+export interface MockCoachSession extends CoachSession {
+  readonly log: MockCoachLogEntry[];
+}
+
+export interface MockCoachOptions {
+  script?: MockCoachEvent[];
+  replies?: string[];
+  // Divides every delay, so a high speed runs the script near-instantly.
+  speed?: number;
+  // Answers generate() requests; by default JSON requests get placeholder data shaped by the schema.
+  generateReply?: (options: CoachGenerateOptions) => string;
+}
+
+export const DEFAULT_MOCK_SCRIPT: MockCoachEvent[] = [
+  { delayMs: 800, type: 'say', text: "Hi, I'm your mock coach. I'm running locally, so nothing is sent over the network." },
+  { delayMs: 5000, type: 'say', text: 'Good start. Try to pull each line from the shoulder in one confident motion instead of many short strokes.' },
+  { delayMs: 8000, type: 'hear', text: 'Is my circle round enough?' },
+  { delayMs: 1500, type: 'tool', name: 'draw_circle', args: { x: 350, y: 500, radius: 120, label: 'flat side' } },
+  { delayMs: 0, type: 'say', text: 'It is a little flat on the left side. Ghost the motion a few times before you commit to the line.' },
+];
+
+export const DEFAULT_MOCK_REPLIES = [
+  'Thanks for asking. Check your proportions against the head unit before adding detail.',
+  'Looking at this frame, your line of action is clear. Keep the curve simple.',
+  'Try slowing down on the long edges; the wobble shows up where you speed up.',
+];
+
+// Smallest value that satisfies the schema, so callers can parse mock JSON like the real thing.
+export function placeholderFromSchema(schema: CoachToolSchema, key: string = 'value'): unknown {
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([name, value]) => [name, placeholderFromSchema(value, name)])
+      );
+    case 'array': return schema.items ? [placeholderFromSchema(schema.items, key)] : [];
+    case 'string': return schema.enum?.[0] ?? `Mock ${key}`;
+    case 'number':
+    case 'integer': return 1;
+    case 'boolean': return false;
+  }
+}
+
+const defaultGenerateReply = ({ responseSchema }: CoachGenerateOptions) => responseSchema
+  ? JSON.stringify(placeholderFromSchema(responseSchema))
+  : 'This is the mock coach. Your shapes read clearly; keep your lines long and confident.';
+
+// A quiet sine tone long enough to "speak" the text, so the playback path
+// runs exactly as it does with real model audio.
+export function synthesizeSpeech(text: string, sampleRate: number = MOCK_SAMPLE_RATE): string {
+  const words = Math.max(1, text.split(/\s+/).filter(Boolean).length);
+  const frames = Math.round((words * MS_PER_WORD / 1000) * sampleRate);
+  const pcm = new Int16Array(frames);
+  for (let i = 0; i < frames; i++) {
+    pcm[i] = Math.round(Math.sin(2 * Math.PI * 220 * (i / sampleRate)) * 0.05 * 32767);
+  }
+  return encode(new Uint8Array(pcm.buffer));
+}
+
+export function createMockCoach(options: MockCoachOptions = {}): CoachProvider {
+  const {
+    script = DEFAULT_MOCK_SCRIPT, replies = DEFAULT_MOCK_REPLIES, speed = 1, generateReply = defaultGenerateReply
+  } = options;
+
+  return {
+    name: 'mock',
+    connect: async ({ callbacks }: CoachConnectOptions): Promise<MockCoachSession> => {
+      const timers = new Set<number>();
+      const log: MockCoachLogEntry[] = [];
+      let replyIndex = 0;
+      let toolCallIndex = 0;
+      let closed = false;
+
+      const schedule = (delayMs: number, run: () => void) => {
+        const id = window.setTimeout(() => {
+          timers.delete(id);
+          if (!closed) run();
+        }, delayMs / speed);
+        timers.add(id);
+      };
+
+      const say = (text: string) => {
+        callbacks.onOutputTranscription(text);
+        callbacks.onAudio(synthesizeSpeech(text));
+        callbacks.onTurnComplete();
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        timers.forEach(id => window.clearTimeout(id));
+        timers.clear();
+        callbacks.onClose();
+      };
+
+      schedule(0, () => {
+        callbacks.onOpen();
+        let at = 0;
+        for (const event of script) {
+          at += event.delayMs;
+          schedule(at, () => {
+            switch (event.type) {
+              case 'say': say(event.text); break;
+              case 'hear': callbacks.onInputTranscription(event.text); break;
+              case 'tool': {
+                const call = { id: `mock-call-${++toolCallIndex}`, name: event.name, args: event.args };
+                callbacks.onToolCall([call]).forEach(({ name, response }) => log.push({ type: 'toolResponse', name, response }));
+                break;
+              }
+              case 'interrupt': callbacks.onInterrupted(); break;
+              case 'close': close(); break;
+            }
+          });
+        }
+      });
+
+      return {
+        log,
+        sendAudio: (chunk) => log.push({ type: 'audio', bytes: chunk.data.length }),
+        endAudioStream: () => log.push({ type: 'audioEnd' }),
+        sendFrame: (jpegBase64) => log.push({ type: 'frame', bytes: jpegBase64.length }),
+        sendText: (text, { images = [], turnComplete = true } = {}) => {
+          log.push({ type: 'text', text, imageCount: images.length, turnComplete });
+          if (turnComplete && replies.length > 0) {
+            const reply = replies[replyIndex++ % replies.length];
+            schedule(600, () => say(reply));
+          }
+        },
+        close
+      };
+    },
+    generate: async (generateOptions) => generateReply(generateOptions)
+  };
+}
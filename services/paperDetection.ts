@@ -0,0 +1,243 @@
+import { Point, Quad } from '../types';
+
+// Detection runs on a frame shrunk to this width; the page is large, so detail doesn't matter.
+export const DETECTION_WIDTH = 160;
+// The page must cover at least this share of the frame to count.
+const MIN_AREA_RATIO = 0.08;
+// Percentiles used to stretch the levels of the flattened page.
+const LEVELS_LOW = 0.02;
+const LEVELS_HIGH = 0.98;
+
+function toGray(data: Uint8ClampedArray, pixels: number): Uint8Array {
+  const gray = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+}
+
+export function otsuThreshold(gray: Uint8Array): number {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const total = gray.length;
+  let sumAll = 0;
+  for (let i = 0; i < 256; i++) sumAll += i * histogram[i];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const between = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+// Largest 4-connected region of bright pixels, as a list of pixel indices.
+function largestBrightRegion(mask: Uint8Array, width: number, height: number): number[] {
+  const visited = new Uint8Array(mask.length);
+  const stack: number[] = [];
+  let best: number[] = [];
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+    const region: number[] = [];
+    stack.push(start);
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      region.push(i);
+      const x = i % width;
+      const neighbours = [
+        x > 0 ? i - 1 : -1,
+        x < width - 1 ? i + 1 : -1,
+        i >= width ? i - width : -1,
+        i < width * (height - 1) ? i + width : -1
+      ];
+      for (const n of neighbours) {
+        if (n >= 0 && mask[n] && !visited[n]) {
+          visited[n] = 1;
+          stack.push(n);
+        }
+      }
+    }
+    if (region.length > best.length) best = region;
+  }
+  return best;
+}
+
+export function quadArea(quad: Quad): number {
+  let area = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    area += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(area) / 2;
+}
+
+// Finds the sketchbook page as the largest bright region and takes its
+// extreme points along the diagonals as the corners. `image` is expected to
+// be a small frame (see DETECTION_WIDTH); the quad is returned scaled by
+// `scale` back into full-frame coordinates.
+export function detectPaperQuad(image: ImageData, scale: number = 1): Quad | null {
+  const { width, height, data } = image;
+  const gray = toGray(data, width * height);
+  const threshold = otsuThreshold(gray);
+  const mask = new Uint8Array(gray.length);
+  for (let i = 0; i < gray.length; i++) mask[i] = gray[i] > threshold ? 1 : 0;
+
+  const region = largestBrightRegion(mask, width, height);
+  if (region.length < width * height * MIN_AREA_RATIO) return null;
+
+  let tl = region[0], tr = region[0], br = region[0], bl = region[0];
+  const score = (i: number) => ({ x: i % width, y: Math.floor(i / width) });
+  for (const i of region) {
+    const p = score(i);
+    const pTl = score(tl), pTr = score(tr), pBr = score(br), pBl = score(bl);
+    if (p.x + p.y < pTl.x + pTl.y) tl = i;
+    if (p.x - p.y > pTr.x - pTr.y) tr = i;
+    if (p.x + p.y > pBr.x + pBr.y) br = i;
+    if (p.y - p.x > pBl.y - pBl.x) bl = i;
+  }
+
+  const toFrame = (i: number): Point => ({ x: (i % width + 0.5) * scale, y: (Math.floor(i / width) + 0.5) * scale });
+  const quad: Quad = [toFrame(tl), toFrame(tr), toFrame(br), toFrame(bl)];
+  if (quadArea(quad) < width * height * scale * scale * MIN_AREA_RATIO) return null;
+  return quad;
+}
+
+// Eases a new detection into the previous one so the outline doesn't jitter.
+export function smoothQuad(previous: Quad | null, next: Quad, factor: number = 0.35): Quad {
+  if (!previous) return next;
+  return previous.map((p, i) => ({
+    x: p.x + (next[i].x - p.x) * factor,
+    y: p.y + (next[i].y - p.y) * factor
+  })) as Quad;
+}
+
+// Size of the flattened page: the longer of each pair of opposite edges,
+// capped at maxDimension.
+export function rectifiedSize(quad: Quad, maxDimension: number): { width: number; height: number } {
+  const dist = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const width = Math.max(dist(quad[0], quad[1]), dist(quad[3], quad[2]));
+  const height = Math.max(dist(quad[0], quad[3]), dist(quad[1], quad[2]));
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+function solveLinear(a: number[][], b: number[]): number[] {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) {
+      if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    }
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    const div = m[col][col] || 1e-12;
+    for (let c = col; c <= n; c++) m[col][c] /= div;
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  return m.map(row => row[n]);
+}
+
+// 3x3 homography (row-major, h[8] = 1) taking each `from` point to the matching `to` point.
+export function computeHomography(from: Quad, to: Quad): number[] {
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  return [...solveLinear(a, b), 1];
+}
+
+export function applyHomography(h: number[], p: Point): Point {
+  const w = h[6] * p.x + h[7] * p.y + h[8];
+  return { x: (h[0] * p.x + h[1] * p.y + h[2]) / w, y: (h[3] * p.x + h[4] * p.y + h[5]) / w };
+}
+
+// Flattens the quad into a width x height rectangle. Each output pixel is
+// mapped back into the source and sampled bilinearly.
+export function warpQuad(source: ImageData, quad: Quad, width: number, height: number): ImageData {
+  const rect: Quad = [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }];
+  const h = computeHomography(rect, quad);
+  const out = new ImageData(width, height);
+  const src = source.data;
+  const sw = source.width;
+  const sh = source.height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cx = x + 0.5;
+      const cy = y + 0.5;
+      const w = h[6] * cx + h[7] * cy + h[8];
+      const sx = (h[0] * cx + h[1] * cy + h[2]) / w - 0.5;
+      const sy = (h[3] * cx + h[4] * cy + h[5]) / w - 0.5;
+      const x0 = Math.max(0, Math.min(sw - 1, Math.floor(sx)));
+      const y0 = Math.max(0, Math.min(sh - 1, Math.floor(sy)));
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = Math.max(0, Math.min(1, sx - x0));
+      const fy = Math.max(0, Math.min(1, sy - y0));
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        const top = src[(y0 * sw + x0) * 4 + c] * (1 - fx) + src[(y0 * sw + x1) * 4 + c] * fx;
+        const bottom = src[(y1 * sw + x0) * 4 + c] * (1 - fx) + src[(y1 * sw + x1) * 4 + c] * fx;
+        out.data[o + c] = top * (1 - fy) + bottom * fy;
+      }
+      out.data[o + 3] = 255;
+    }
+  }
+  return out;
+}
+
+// Grayscale with the levels stretched between the 2nd and 98th percentile,
+// which darkens faint pencil lines and evens out the paper tone.
+export function enhancePencil(image: ImageData): ImageData {
+  const pixels = image.width * image.height;
+  const gray = toGray(image.data, pixels);
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+
+  const percentile = (p: number) => {
+    let count = 0;
+    for (let i = 0; i < 256; i++) {
+      count += histogram[i];
+      if (count >= pixels * p) return i;
+    }
+    return 255;
+  };
+  const low = percentile(LEVELS_LOW);
+  const high = Math.max(low + 1, percentile(LEVELS_HIGH));
+
+  const out = new ImageData(image.width, image.height);
+  for (let i = 0; i < pixels; i++) {
+    const v = Math.max(0, Math.min(255, ((gray[i] - low) / (high - low)) * 255));
+    out.data[i * 4] = v;
+    out.data[i * 4 + 1] = v;
+    out.data[i * 4 + 2] = v;
+    out.data[i * 4 + 3] = 255;
+  }
+  return out;
+}
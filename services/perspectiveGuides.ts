@@ -0,0 +1,152 @@
+import {
+  GuideSettings, PerspectiveReport, PerspectiveTarget, PerspectiveTargetStats, Point, Stroke
+} from '../types';
+
+// A stroke is checked only if it is at least this long (px)...
+const MIN_LINE_LENGTH = 30;
+// ...and no point strays further than this share of its length from the chord.
+const MAX_STRAIGHTNESS_DEVIATION = 0.04;
+// Lines further than this from every target aren't meant as perspective lines.
+const MAX_ASSIGN_ERROR_DEG = 15;
+// Lines within this of their target count as accurate.
+export const PERSPECTIVE_TOLERANCE_DEG = 3;
+// How many of the latest straight lines feed the report.
+const SAMPLE_SIZE = 30;
+
+// Landmarks at each head of the 8-head figure, from the top of the head down.
+export const FIGURE_RULER_MARKS = [
+  'Top of head', 'Chin', 'Nipples', 'Navel', 'Crotch', 'Mid-thigh', 'Knees', 'Mid-shin', 'Feet'
+];
+
+export function createDefaultGuides(width: number, height: number): GuideSettings {
+  return {
+    width,
+    height,
+    perspective: 'off',
+    horizonY: height * 0.4,
+    vp1X: width * 0.1,
+    vp2X: width * 0.9,
+    vp3: { x: width * 0.5, y: height * 1.6 },
+    showFigureRuler: false,
+    rulerX: width * 0.85,
+    rulerTop: height * 0.1,
+    rulerBottom: height * 0.9
+  };
+}
+
+export function activeVanishingPoints(guides: GuideSettings): { target: 'VP1' | 'VP2' | 'VP3'; point: Point }[] {
+  const vp1 = { target: 'VP1' as const, point: { x: guides.vp1X, y: guides.horizonY } };
+  const vp2 = { target: 'VP2' as const, point: { x: guides.vp2X, y: guides.horizonY } };
+  const vp3 = { target: 'VP3' as const, point: guides.vp3 };
+  switch (guides.perspective) {
+    case '1-point': return [vp1];
+    case '2-point': return [vp1, vp2];
+    case '3-point': return [vp1, vp2, vp3];
+    default: return [];
+  }
+}
+
+// Families of lines that stay parallel on the page in each mode.
+function parallelTargets(guides: GuideSettings): { target: PerspectiveTarget; direction: Point }[] {
+  const verticals = { target: 'verticals' as const, direction: { x: 0, y: 1 } };
+  const horizontals = { target: 'horizontals' as const, direction: { x: 1, y: 0 } };
+  switch (guides.perspective) {
+    case '1-point': return [horizontals, verticals];
+    case '2-point': return [verticals];
+    default: return [];
+  }
+}
+
+// The stroke as a line segment, or null if it is short or curved.
+export function straightLine(stroke: Stroke): { from: Point; to: Point } | null {
+  const { points } = stroke;
+  if (points.length < 2) return null;
+  const from = points[0];
+  const to = points[points.length - 1];
+  const length = Math.hypot(to.x - from.x, to.y - from.y);
+  if (length < MIN_LINE_LENGTH) return null;
+
+  for (const p of points) {
+    const deviation = Math.abs((to.x - from.x) * (from.y - p.y) - (from.x - p.x) * (to.y - from.y)) / length;
+    if (deviation > length * MAX_STRAIGHTNESS_DEVIATION) return null;
+  }
+  return { from: { x: from.x, y: from.y }, to: { x: to.x, y: to.y } };
+}
+
+// Angle between two undirected lines, 0..90 degrees.
+function angleBetween(a: Point, b: Point): number {
+  const dot = Math.abs(a.x * b.x + a.y * b.y) / (Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y) || 1);
+  return Math.acos(Math.min(1, dot)) * 180 / Math.PI;
+}
+
+// How far a line is from pointing at each target, in degrees, best first.
+export function lineErrors(line: { from: Point; to: Point }, guides: GuideSettings): { target: PerspectiveTarget; errorDeg: number }[] {
+  const direction = { x: line.to.x - line.from.x, y: line.to.y - line.from.y };
+  const mid = { x: (line.from.x + line.to.x) / 2, y: (line.from.y + line.to.y) / 2 };
+  const errors = [
+    ...activeVanishingPoints(guides).map(({ target, point }) => ({
+      target,
+      errorDeg: angleBetween(direction, { x: point.x - mid.x, y: point.y - mid.y })
+    })),
+    ...parallelTargets(guides).map(({ target, direction: parallel }) => ({
+      target,
+      errorDeg: angleBetween(direction, parallel)
+    }))
+  ];
+  return errors.sort((a, b) => a.errorDeg - b.errorDeg);
+}
+
+export function analyzePerspective(strokes: Stroke[], guides: GuideSettings | null): PerspectiveReport | null {
+  if (!guides || activeVanishingPoints(guides).length === 0) return null;
+
+  const checked: { strokeId: string; target: PerspectiveTarget; errorDeg: number }[] = [];
+  for (const stroke of strokes) {
+    if (stroke.tool === 'eraser' || stroke.tool === 'blend') continue;
+    const line = straightLine(stroke);
+    if (!line) continue;
+    const best = lineErrors(line, guides)[0];
+    if (best && best.errorDeg <= MAX_ASSIGN_ERROR_DEG) checked.push({ strokeId: stroke.id, ...best });
+  }
+  const sample = checked.slice(-SAMPLE_SIZE);
+  if (sample.length === 0) {
+    return { mode: guides.perspective, checkedStrokes: 0, averageErrorDeg: 0, withinTolerance: 0, targets: [], worst: null };
+  }
+
+  const average = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const targets: PerspectiveTargetStats[] = [];
+  for (const target of ['VP1', 'VP2', 'VP3', 'verticals', 'horizontals'] as PerspectiveTarget[]) {
+    const hits = sample.filter(c => c.target === target);
+    if (hits.length > 0) targets.push({ target, strokes: hits.length, averageErrorDeg: average(hits.map(h => h.errorDeg)) });
+  }
+
+  return {
+    mode: guides.perspective,
+    checkedStrokes: sample.length,
+    averageErrorDeg: average(sample.map(c => c.errorDeg)),
+    withinTolerance: sample.filter(c => c.errorDeg <= PERSPECTIVE_TOLERANCE_DEG).length / sample.length,
+    targets,
+    worst: sample.reduce((worst, c) => c.errorDeg > worst.errorDeg ? c : worst)
+  };
+}
+
+export function formatPerspectiveReport(report: PerspectiveReport, guides: GuideSettings): string {
+  const { width, height } = guides;
+  const pct = (v: number, total: number) => `${Math.round((v / total) * 100)}%`;
+  const points = activeVanishingPoints(guides)
+    .map(({ target, point }) => `${target} at (${pct(point.x, width)}, ${pct(point.y, height)})`)
+    .join(', ');
+  const parts = [
+    `[PERSPECTIVE CHECK] Mode: ${report.mode}. Horizon at ${pct(guides.horizonY, height)} of the height; ${points} (x, y as a share of the canvas).`
+  ];
+  if (report.checkedStrokes === 0) {
+    parts.push('No straight perspective lines drawn yet.');
+  } else {
+    parts.push(
+      `${report.checkedStrokes} straight lines checked: average error ${report.averageErrorDeg.toFixed(1)}°, ` +
+      `${Math.round(report.withinTolerance * 100)}% within ${PERSPECTIVE_TOLERANCE_DEG}°.`
+    );
+    parts.push(report.targets.map(t => `${t.target}: ${t.strokes} lines, ${t.averageErrorDeg.toFixed(1)}° avg`).join('; ') + '.');
+    if (report.worst) parts.push(`Worst line is ${report.worst.errorDeg.toFixed(1)}° off ${report.worst.target}.`);
+  }
+  return parts.join(' ');
+}
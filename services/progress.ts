@@ -0,0 +1,184 @@
+import { Lesson, LessonFocus, PerspectiveReport, ProgressEntry, SkillScores, StrokeQualityReport } from '../types';
+import { FOCUS_AREAS } from '../constants';
+import { missingPrerequisites } from './curriculum';
+
+const PROGRESS_KEY = 'artis.progress';
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Local line scores need this many strokes to mean anything.
+const MIN_SCORED_STROKES = 10;
+// Trends compare the average of the latest sessions with the same number before them.
+const TREND_WINDOW = 3;
+
+export function loadProgress(): ProgressEntry[] {
+  try {
+    const raw = localStorage.getItem(PROGRESS_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveProgress(entries: ProgressEntry[]): ProgressEntry[] {
+  localStorage.setItem(PROGRESS_KEY, JSON.stringify(entries));
+  return entries;
+}
+
+// Adds or replaces the entry for a session, keeping the history in time order.
+export function recordProgress(entry: ProgressEntry): ProgressEntry[] {
+  const entries = loadProgress().filter(e => e.sessionId !== entry.sessionId);
+  return saveProgress([...entries, entry].sort((a, b) => a.startedAt - b.startedAt));
+}
+
+export function setCoachScores(sessionId: string, scores: SkillScores): ProgressEntry[] {
+  return saveProgress(loadProgress().map(e => e.sessionId === sessionId ? { ...e, coachScores: scores } : e));
+}
+
+// Line confidence counts towards the lesson's own focus; perspective accuracy always counts as perspective.
+export function measureLocalScores(
+  focus: LessonFocus,
+  strokes: StrokeQualityReport | null,
+  perspective: PerspectiveReport | null
+): SkillScores {
+  const samples: Partial<Record<LessonFocus, number[]>> = {};
+  const add = (area: LessonFocus, score: number) => (samples[area] ??= []).push(score);
+  if (strokes && strokes.strokeCount >= MIN_SCORED_STROKES) add(focus, strokes.confidence);
+  if (perspective && perspective.checkedStrokes > 0) add('perspective', perspective.withinTolerance * 100);
+  return Object.fromEntries(
+    Object.entries(samples).map(([area, values]) => [area, Math.round(values!.reduce((a, b) => a + b, 0) / values!.length)])
+  );
+}
+
+// The coach's and the local score for each area, averaged where both exist.
+export function entryScores(entry: ProgressEntry): SkillScores {
+  const scores: SkillScores = {};
+  FOCUS_AREAS.forEach(({ id }) => {
+    const values = [entry.coachScores?.[id], entry.localScores[id]].filter((v): v is number => v !== undefined);
+    if (values.length > 0) scores[id] = Math.round(values.reduce((a, b) => a + b, 0) / values.length);
+  });
+  return scores;
+}
+
+export interface SkillTrend {
+  focus: LessonFocus;
+  label: string;
+  history: { at: number; score: number }[];
+  // Sessions on a lesson with this focus, scored or not.
+  practised: number;
+  // Average of the latest sessions, or null if the area was never scored.
+  // Camera sessions and sessions without a report often leave an area unscored.
+  recent: number | null;
+  // Change against the sessions before those, or null without enough history.
+  change: number | null;
+}
+
+const average = (values: number[]) => values.reduce((a, b) => a + b, 0) / values.length;
+
+export function skillTrends(entries: ProgressEntry[]): SkillTrend[] {
+  return FOCUS_AREAS.map(({ id, label }) => {
+    const history = entries
+      .map(e => ({ at: e.startedAt, score: entryScores(e)[id] }))
+      .filter((h): h is { at: number; score: number } => h.score !== undefined);
+    const latest = history.slice(-TREND_WINDOW).map(h => h.score);
+    const before = history.slice(-TREND_WINDOW * 2, -TREND_WINDOW).map(h => h.score);
+    const recent = latest.length > 0 ? Math.round(average(latest)) : null;
+    return {
+      focus: id,
+      label,
+      history,
+      practised: entries.filter(e => e.focus === id).length,
+      recent,
+      change: recent !== null && before.length > 0 ? Math.round(recent - average(before)) : null
+    };
+  });
+}
+
+export interface PracticeStats {
+  sessions: number;
+  totalMs: number;
+  last7DaysMs: number;
+  // Consecutive days with practice, ending today or yesterday.
+  currentStreak: number;
+  longestStreak: number;
+}
+
+// Whole local days since the epoch, so streaks follow the student's calendar.
+const dayNumber = (ts: number) => {
+  const d = new Date(ts);
+  return Math.round(new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime() / DAY_MS);
+};
+
+export function practiceStats(entries: ProgressEntry[], now: number = Date.now()): PracticeStats {
+  const days = [...new Set(entries.map(e => dayNumber(e.startedAt)))].sort((a, b) => a - b);
+  let longestStreak = 0;
+  let run = 0;
+  days.forEach((day, i) => {
+    run = i > 0 && day === days[i - 1] + 1 ? run + 1 : 1;
+    longestStreak = Math.max(longestStreak, run);
+  });
+  const today = dayNumber(now);
+  const lastDay = days[days.length - 1];
+  const currentStreak = lastDay !== undefined && today - lastDay <= 1 ? run : 0;
+
+  return {
+    sessions: entries.length,
+    totalMs: entries.reduce((sum, e) => sum + e.durationMs, 0),
+    last7DaysMs: entries.filter(e => now - e.startedAt <= 7 * DAY_MS).reduce((sum, e) => sum + e.durationMs, 0),
+    currentStreak,
+    longestStreak
+  };
+}
+
+export function formatPracticeTime(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+// Points at the weakest unlocked area; areas never practised come first, then ones practised but not yet scored.
+export function suggestNextLesson(
+  lessons: Lesson[],
+  completed: string[],
+  entries: ProgressEntry[]
+): { lesson: Lesson; reason: string } | null {
+  const unlocked = lessons.filter(l => missingPrerequisites(l, lessons, completed).length === 0);
+  if (unlocked.length === 0) return null;
+  const trends = skillTrends(entries);
+  const rank = (lesson: Lesson) => {
+    const trend = trends.find(t => t.focus === lesson.focus);
+    // Unscored areas rank below every score, unpractised ones lowest; finished lessons break ties last
+    const score = trend?.recent ?? (trend?.practised ? -1 : -2);
+    return score * 2 + (completed.includes(lesson.id) ? 1 : 0);
+  };
+  const lesson = [...unlocked].sort((a, b) => rank(a) - rank(b))[0];
+  const trend = trends.find(t => t.focus === lesson.focus)!;
+  const reason = trend.recent !== null
+    ? `${trend.label} is your weakest area right now (${trend.recent}/100).`
+    : trend.practised > 0
+      ? `Your ${trend.label.toLowerCase()} practice hasn't been scored yet; a session report will score it.`
+      : `You haven't practised ${trend.label.toLowerCase()} yet.`;
+  return { lesson, reason };
+}
+
+export function formatLearnerProfile(entries: ProgressEntry[], lessons: Lesson[], completed: string[]): string | null {
+  if (entries.length === 0) return null;
+  const stats = practiceStats(entries);
+  const trends = skillTrends(entries);
+  const scored = trends.filter(t => t.recent !== null);
+  const unscored = trends.filter(t => t.recent === null && t.practised > 0);
+  const unpractised = trends.filter(t => t.practised === 0);
+  const parts = [
+    `[LEARNER PROFILE] ${stats.sessions} earlier sessions, ${formatPracticeTime(stats.totalMs)} of practice in total` +
+    `${stats.currentStreak > 1 ? `, practising ${stats.currentStreak} days in a row` : ''}.`
+  ];
+  if (scored.length > 0) {
+    parts.push('Recent skill scores out of 100: ' + scored
+      .map(t => `${t.label} ${t.recent}${t.change ? ` (${t.change > 0 ? '+' : ''}${t.change})` : ''}`)
+      .join(', ') + '.');
+    const weakest = scored.reduce((a, b) => (b.recent! < a.recent! ? b : a));
+    parts.push(`Weakest area: ${weakest.label}.`);
+  }
+  if (unscored.length > 0) parts.push(`Practised but not scored yet: ${unscored.map(t => t.label).join(', ')}.`);
+  if (unpractised.length > 0) parts.push(`Not practised yet: ${unpractised.map(t => t.label).join(', ')}.`);
+  const done = lessons.filter(l => completed.includes(l.id)).map(l => l.title);
+  if (done.length > 0) parts.push(`Lessons completed: ${done.join(', ')}.`);
+  return parts.join(' ');
+}
@@ -0,0 +1,79 @@
+import { ReferenceImage, ReferenceLayout } from '../types';
+import { CANVAS_BACKGROUND } from './strokeRenderer';
+import { loadImageAsJpeg } from './gesturePractice';
+
+// How strongly the reference shows through the drawing in overlaid frames.
+const OVERLAY_ALPHA = 0.35;
+const LABEL_COLOR = '#94a3b8';
+
+export function loadReferenceImage(file: File, maxDimension: number): Promise<ReferenceImage> {
+  const url = URL.createObjectURL(file);
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load ${file.name}`));
+    image.src = url;
+  })
+    .then(async image => ({ name: file.name, url, image, data: await loadImageAsJpeg(url, maxDimension) }))
+    .catch(err => {
+      URL.revokeObjectURL(url);
+      throw err;
+    });
+}
+
+export function releaseReferenceImage(reference: ReferenceImage) {
+  URL.revokeObjectURL(reference.url);
+}
+
+// The largest rect with the image's aspect ratio that fits the box, centered.
+// The local onion-skin view uses object-contain, so both line up.
+export function containRect(imageWidth: number, imageHeight: number, width: number, height: number) {
+  const scale = Math.min(width / imageWidth, height / imageHeight);
+  const w = imageWidth * scale;
+  const h = imageHeight * scale;
+  return { x: (width - w) / 2, y: (height - h) / 2, width: w, height: h };
+}
+
+// Draws the reference and the drawing into target as one frame for the coach.
+export function composeReferenceFrame(
+  target: HTMLCanvasElement,
+  drawing: HTMLCanvasElement,
+  reference: ReferenceImage,
+  layout: ReferenceLayout
+): HTMLCanvasElement | null {
+  const { width, height } = drawing;
+  if (!width || !height) return null;
+  target.width = layout === 'side-by-side' ? width * 2 : width;
+  target.height = height;
+  const ctx = target.getContext('2d');
+  if (!ctx) return null;
+  const rect = containRect(reference.image.naturalWidth, reference.image.naturalHeight, width, height);
+
+  if (layout === 'overlay') {
+    ctx.drawImage(drawing, 0, 0);
+    ctx.globalAlpha = OVERLAY_ALPHA;
+    ctx.drawImage(reference.image, rect.x, rect.y, rect.width, rect.height);
+    ctx.globalAlpha = 1;
+    return target;
+  }
+
+  ctx.fillStyle = CANVAS_BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(reference.image, rect.x, rect.y, rect.width, rect.height);
+  ctx.drawImage(drawing, width, 0);
+  ctx.fillStyle = LABEL_COLOR;
+  ctx.fillRect(width - 1, 0, 2, height);
+  ctx.font = `bold ${Math.max(12, Math.round(height / 40))}px Inter, sans-serif`;
+  ctx.textBaseline = 'top';
+  ctx.fillText('REFERENCE', 12, 12);
+  ctx.fillText('DRAWING', width + 12, 12);
+  return target;
+}
+
+export function formatReferenceNote(reference: ReferenceImage | null, layout: ReferenceLayout): string {
+  if (!reference) return '[REFERENCE] The reference image was removed; frames show the drawing alone again.';
+  const shown = layout === 'side-by-side'
+    ? 'Frames now show it side by side: reference on the left, drawing on the right.'
+    : 'Frames now show it faded over the drawing, scaled to fit the canvas.';
+  return `[REFERENCE] The student loaded the reference "${reference.name}". ${shown}`;
+}
@@ -0,0 +1,270 @@
+import { Lesson, LessonFocus, ReportMoment, SavedSession, SessionReport, SessionSnapshot, SkillScores } from '../types';
+import { FOCUS_AREAS, SESSION_REPORT_INSTRUCTION } from '../constants';
+import { CoachProvider, CoachToolSchema } from './coachSession';
+
+// Frames attached to the request; long sessions are sampled evenly.
+const MAX_REPORT_FRAMES = 8;
+
+const REPORT_SCHEMA: CoachToolSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'Two or three sentences on how the session went.' },
+    scores: {
+      type: 'object',
+      description: 'Skill shown in each focus area this session, 0 to 100. Leave out areas that did not come up.',
+      properties: Object.fromEntries(FOCUS_AREAS.map(f => [f.id, { type: 'integer' } as CoachToolSchema]))
+    },
+    strengths: { type: 'array', items: { type: 'string' } },
+    mistakes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          focus: { type: 'string', enum: FOCUS_AREAS.map(f => f.id) },
+          issue: { type: 'string' },
+          occurrences: { type: 'integer', description: 'How many times it came up in the session.' },
+          fix: { type: 'string' }
+        },
+        required: ['focus', 'issue', 'occurrences', 'fix']
+      }
+    },
+    exercises: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          focus: { type: 'string', enum: FOCUS_AREAS.map(f => f.id) },
+          title: { type: 'string' },
+          description: { type: 'string' }
+        },
+        required: ['focus', 'title', 'description']
+      }
+    },
+    moments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          frame: { type: 'integer', description: 'Number of the frame, as given in the prompt.' },
+          caption: { type: 'string' }
+        },
+        required: ['frame', 'caption']
+      }
+    }
+  },
+  required: ['summary', 'scores', 'strengths', 'mistakes', 'exercises', 'moments']
+};
+
+const formatClock = (ms: number) => {
+  const total = Math.max(0, Math.floor(ms / 1000));
+  return `${String(Math.floor(total / 60)).padStart(2, '0')}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Snapshots plus the final artwork, thinned out evenly to at most `max` frames.
+export function reportFrames(session: SavedSession, max: number = MAX_REPORT_FRAMES): SessionSnapshot[] {
+  const frames = [
+    ...session.snapshots,
+    ...(session.finalArtwork ? [{ timestamp: session.endedAt, image: session.finalArtwork }] : [])
+  ];
+  if (frames.length <= max) return frames;
+  return Array.from({ length: max }, (_, i) => frames[Math.round((i * (frames.length - 1)) / (max - 1))]);
+}
+
+// Transcription arrives in fragments; join consecutive fragments from the same speaker.
+function transcriptLines(session: SavedSession): string[] {
+  const lines: { type: 'user' | 'ai'; timestamp: number; text: string }[] = [];
+  for (const item of session.transcript) {
+    const last = lines[lines.length - 1];
+    if (last && last.type === item.type) last.text += ` ${item.text.trim()}`;
+    else lines.push({ type: item.type, timestamp: item.timestamp, text: item.text.trim() });
+  }
+  return lines.map(l => `[${formatClock(l.timestamp - session.startedAt)}] ${l.type === 'ai' ? 'Coach' : 'Student'}: ${l.text}`);
+}
+
+function buildReportPrompt(session: SavedSession, lesson: Lesson | undefined, frames: SessionSnapshot[]): string {
+  const parts = [
+    `Lesson: ${session.lessonTitle}${lesson ? ` (focus: ${lesson.focus})` : ''}.`,
+    `Session length: ${formatClock(session.endedAt - session.startedAt)}, ${session.trackingMode === 'digital' ? 'digital canvas' : 'physical sketchbook on camera'}.`
+  ];
+  if (session.reference) parts.push(`The student drew from a reference image, "${session.reference.name}".`);
+  if (session.gestures?.length) parts.push(`The student completed ${session.gestures.length} timed gesture poses.`);
+  parts.push(
+    '',
+    `Frames (attached in this order): ${frames.map((f, i) => `frame ${i} at ${formatClock(f.timestamp - session.startedAt)}`).join(', ') || 'none'}.`,
+    '',
+    'Transcript:',
+    ...transcriptLines(session)
+  );
+  return parts.join('\n');
+}
+
+const asString = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+const asArray = (value: unknown): Record<string, unknown>[] => Array.isArray(value) ? value.filter(v => v && typeof v === 'object') : [];
+const asFocus = (value: unknown, fallback: LessonFocus): LessonFocus =>
+  FOCUS_AREAS.some(f => f.id === value) ? value as LessonFocus : fallback;
+
+// Turns the model's JSON into a report, dropping anything malformed.
+export function parseSessionReport(json: string, frames: SessionSnapshot[], fallbackFocus: LessonFocus): SessionReport {
+  const data = JSON.parse(json) as Record<string, unknown>;
+  const moments: ReportMoment[] = asArray(data.moments)
+    .filter(m => Number.isInteger(m.frame) && frames[m.frame as number])
+    .map(m => ({ timestamp: frames[m.frame as number].timestamp, image: frames[m.frame as number].image, caption: asString(m.caption) }));
+  // Always keep the finished piece if the model chose nothing
+  if (moments.length === 0 && frames.length > 0) {
+    const last = frames[frames.length - 1];
+    moments.push({ timestamp: last.timestamp, image: last.image, caption: 'Where the drawing ended up.' });
+  }
+
+  const rawScores = (data.scores && typeof data.scores === 'object' ? data.scores : {}) as Record<string, unknown>;
+  const scores: SkillScores = {};
+  FOCUS_AREAS.forEach(({ id }) => {
+    const score = Number(rawScores[id]);
+    if (rawScores[id] !== null && rawScores[id] !== undefined && Number.isFinite(score)) {
+      scores[id] = Math.round(Math.min(100, Math.max(0, score)));
+    }
+  });
+
+  return {
+    generatedAt: Date.now(),
+    summary: asString(data.summary),
+    scores,
+    strengths: (Array.isArray(data.strengths) ? data.strengths : []).map(asString).filter(Boolean),
+    mistakes: asArray(data.mistakes)
+      .map(m => ({
+        focus: asFocus(m.focus, fallbackFocus),
+        issue: asString(m.issue),
+        occurrences: Math.max(1, Math.round(Number(m.occurrences) || 1)),
+        fix: asString(m.fix)
+      }))
+      .filter(m => m.issue)
+      .sort((a, b) => b.occurrences - a.occurrences),
+    exercises: asArray(data.exercises)
+      .map(e => ({ focus: asFocus(e.focus, fallbackFocus), title: asString(e.title), description: asString(e.description) }))
+      .filter(e => e.title),
+    moments: moments.sort((a, b) => a.timestamp - b.timestamp)
+  };
+}
+
+export async function generateSessionReport(
+  provider: CoachProvider,
+  session: SavedSession,
+  lesson: Lesson | undefined
+): Promise<SessionReport> {
+  const frames = reportFrames(session);
+  const reply = await provider.generate({
+    systemInstruction: SESSION_REPORT_INSTRUCTION,
+    prompt: buildReportPrompt(session, lesson, frames),
+    images: frames.map(f => f.image),
+    responseSchema: REPORT_SCHEMA
+  });
+  return parseSessionReport(reply, frames, lesson?.focus ?? 'shapes');
+}
+
+// Mistakes bucketed by focus area, in the fixed area order; empty areas are left out.
+export function groupMistakesByFocus(report: SessionReport) {
+  return FOCUS_AREAS
+    .map(area => ({ ...area, mistakes: report.mistakes.filter(m => m.focus === area.id) }))
+    .filter(area => area.mistakes.length > 0);
+}
+
+const focusLabel = (focus: LessonFocus) => FOCUS_AREAS.find(f => f.id === focus)?.label ?? focus;
+const formatDate = (ts: number) => new Date(ts).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+export function reportToMarkdown(session: SavedSession, report: SessionReport): string {
+  const lines = [
+    `# ${session.lessonTitle} — Session Report`,
+    '',
+    `*${formatDate(session.startedAt)} · ${formatClock(session.endedAt - session.startedAt)}*`,
+    '',
+    report.summary,
+    '',
+    '## Strengths',
+    ...(report.strengths.length > 0 ? report.strengths.map(s => `- ${s}`) : ['- None noted.']),
+    '',
+    '## Recurring Mistakes'
+  ];
+  const groups = groupMistakesByFocus(report);
+  if (groups.length === 0) lines.push('', 'None noted.');
+  groups.forEach(group => {
+    lines.push('', `### ${group.label}`);
+    group.mistakes.forEach(m => lines.push(`- **${m.issue}** (×${m.occurrences}) — ${m.fix}`));
+  });
+  lines.push('', '## Exercises for Next Time');
+  report.exercises.forEach((e, i) => lines.push(`${i + 1}. **${e.title}** (${focusLabel(e.focus)}) — ${e.description}`));
+  if (report.moments.length > 0) {
+    lines.push('', '## Key Moments');
+    report.moments.forEach(m => {
+      lines.push('', `**${formatClock(m.timestamp - session.startedAt)}** — ${m.caption}`, '', `![${m.caption}](data:image/jpeg;base64,${m.image})`);
+    });
+  }
+  return lines.join('\n') + '\n';
+}
+
+const escapeHtml = (text: string) => text
+  .replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Standalone page with inline styles, for saving and for printing to PDF.
+export function reportToHtml(session: SavedSession, report: SessionReport): string {
+  const list = (items: string[]) => items.length > 0 ? `<ul>${items.map(i => `<li>${i}</li>`).join('')}</ul>` : '<p>None noted.</p>';
+  const groups = groupMistakesByFocus(report);
+  const body = [
+    `<h1>${escapeHtml(session.lessonTitle)} — Session Report</h1>`,
+    `<p class="meta">${escapeHtml(formatDate(session.startedAt))} · ${formatClock(session.endedAt - session.startedAt)}</p>`,
+    `<p>${escapeHtml(report.summary)}</p>`,
+    '<h2>Strengths</h2>',
+    list(report.strengths.map(escapeHtml)),
+    '<h2>Recurring Mistakes</h2>',
+    groups.length > 0
+      ? groups.map(g => `<h3>${g.label}</h3>${list(g.mistakes.map(m =>
+        `<strong>${escapeHtml(m.issue)}</strong> <span class="count">×${m.occurrences}</span> — ${escapeHtml(m.fix)}`))}`).join('')
+      : '<p>None noted.</p>',
+    '<h2>Exercises for Next Time</h2>',
+    `<ol>${report.exercises.map(e =>
+      `<li><strong>${escapeHtml(e.title)}</strong> <span class="count">${focusLabel(e.focus)}</span> — ${escapeHtml(e.description)}</li>`).join('')}</ol>`,
+    report.moments.length > 0 ? '<h2>Key Moments</h2>' : '',
+    `<div class="moments">${report.moments.map(m =>
+      `<figure><img src="data:image/jpeg;base64,${m.image}" alt=""><figcaption><strong>${formatClock(m.timestamp - session.startedAt)}</strong> ${escapeHtml(m.caption)}</figcaption></figure>`).join('')}</div>`
+  ].join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(session.lessonTitle)} — Session Report</title>
+<style>
+  body { font-family: Inter, system-ui, sans-serif; color: #1e293b; max-width: 760px; margin: 40px auto; padding: 0 24px; line-height: 1.55; }
+  h1 { font-size: 26px; margin-bottom: 4px; }
+  h2 { font-size: 18px; margin-top: 32px; border-bottom: 1px solid #e2e8f0; padding-bottom: 4px; }
+  h3 { font-size: 14px; color: #4f46e5; margin-bottom: 4px; }
+  .meta { color: #64748b; margin-top: 0; }
+  .count { color: #64748b; font-size: 12px; }
+  .moments { display: grid; grid-template-columns: repeat(2, 1fr); gap: 16px; }
+  figure { margin: 0; break-inside: avoid; }
+  figure img { width: 100%; border-radius: 8px; border: 1px solid #e2e8f0; }
+  figcaption { font-size: 13px; margin-top: 6px; }
+</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+// Prints through a hidden frame so the browser's "Save as PDF" gets only the report.
+export function printReportHtml(html: string) {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const win = frame.contentWindow;
+    if (!win) return;
+    win.addEventListener('afterprint', () => frame.remove());
+    win.focus();
+    win.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+}
@@ -0,0 +1,59 @@
+import { SavedSession } from '../types';
+
+const DB_NAME = 'artis-ai-coach';
+const DB_VERSION = 1;
+const SESSION_STORE = 'sessions';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSION_STORE)) {
+          const store = db.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+          store.createIndex('startedAt', 'startedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, mode);
+  return promisify(run(tx.objectStore(SESSION_STORE)));
+}
+
+export async function saveSession(session: SavedSession): Promise<void> {
+  await withStore('readwrite', store => store.put(session));
+}
+
+export async function getSession(id: string): Promise<SavedSession | undefined> {
+  return withStore<SavedSession | undefined>('readonly', store => store.get(id));
+}
+
+// Newest first.
+export async function listSessions(): Promise<SavedSession[]> {
+  const sessions = await withStore<SavedSession[]>('readonly', store => store.getAll());
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
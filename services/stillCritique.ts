@@ -0,0 +1,135 @@
+// Written critique of a single image through a standard request, for weak
+// connections and finished pieces where a live session is overkill.
+import { CoachSettings, CritiqueSection, CritiqueSource, Lesson, LessonFocus, LessonStep, StillCritique } from '../types';
+import { FOCUS_AREAS, STILL_CRITIQUE_INSTRUCTION } from '../constants';
+import { CoachProvider, CoachToolSchema } from './coachSession';
+import { formatWrittenStyle } from './coachSettings';
+
+const CRITIQUE_SCHEMA: CoachToolSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'Two or three sentences on the drawing as a whole.' },
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          focus: { type: 'string', enum: FOCUS_AREAS.map(f => f.id) },
+          strengths: { type: 'array', items: { type: 'string' } },
+          issues: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                issue: { type: 'string' },
+                fix: { type: 'string', description: 'A concrete thing to do about it.' }
+              },
+              required: ['issue', 'fix']
+            }
+          }
+        },
+        required: ['focus', 'strengths', 'issues']
+      }
+    },
+    nextStep: { type: 'string', description: 'The one change that would improve the drawing most.' }
+  },
+  required: ['summary', 'sections', 'nextStep']
+};
+
+export interface CritiqueContext {
+  lesson: Lesson;
+  // The step being worked on, when the lesson is running.
+  step: LessonStep | null;
+  source: CritiqueSource;
+  // File name of an uploaded image.
+  fileName?: string;
+  // Name of the reference image shown alongside the drawing, if any.
+  referenceName?: string;
+  settings: CoachSettings;
+}
+
+const describeSource = ({ source, fileName }: CritiqueContext) => ({
+  canvas: "a snapshot of the student's digital canvas",
+  camera: "a camera photo of the student's sketchbook page",
+  upload: `an image the student uploaded${fileName ? `, "${fileName}"` : ''}`
+})[source];
+
+// What the student asked for, as shown in the Feedback Log.
+export function formatCritiqueRequest(context: CritiqueContext): string {
+  const what = { canvas: 'the canvas', camera: 'the camera capture', upload: context.fileName ?? 'the uploaded image' }[context.source];
+  return `Written critique of ${what}, please.`;
+}
+
+function buildCritiquePrompt(context: CritiqueContext): string {
+  const { lesson, step, referenceName } = context;
+  const references = lesson.references ?? [];
+  const parts = [
+    `Lesson: ${lesson.title}. ${lesson.description}`,
+    `Focus: ${lesson.focus}.`
+  ];
+  if (step) parts.push(`Current step: ${step.title}: ${step.instruction}`);
+  if (lesson.coachInstructions) parts.push(`Teacher's notes: ${lesson.coachInstructions}`);
+  parts.push('', `The first image is ${describeSource(context)}.`);
+  if (referenceName) parts.push(`It shows the reference "${referenceName}" together with the drawing; critique the drawing against it.`);
+  if (references.length > 0) {
+    parts.push(`The images after it are the lesson's reference images: ${references.map(r => r.name).join('; ')}.`);
+  }
+  return parts.join('\n');
+}
+
+const asString = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+const asArray = (value: unknown): Record<string, unknown>[] => Array.isArray(value) ? value.filter(v => v && typeof v === 'object') : [];
+const asStrings = (value: unknown) => (Array.isArray(value) ? value : []).map(asString).filter(Boolean);
+
+// Turns the model's JSON into a critique. Sections for the same area are merged,
+// and the lesson's focus comes first.
+export function parseStillCritique(json: string, source: CritiqueSource, lessonFocus: LessonFocus): StillCritique {
+  const data = JSON.parse(json) as Record<string, unknown>;
+  const byFocus = new Map<LessonFocus, CritiqueSection>();
+  asArray(data.sections).forEach(raw => {
+    if (!FOCUS_AREAS.some(f => f.id === raw.focus)) return;
+    const focus = raw.focus as LessonFocus;
+    const section = byFocus.get(focus) ?? { focus, strengths: [], issues: [] };
+    section.strengths.push(...asStrings(raw.strengths));
+    section.issues.push(...asArray(raw.issues)
+      .map(i => ({ issue: asString(i.issue), fix: asString(i.fix) }))
+      .filter(i => i.issue));
+    byFocus.set(focus, section);
+  });
+
+  const order = [lessonFocus, ...FOCUS_AREAS.map(f => f.id).filter(id => id !== lessonFocus)];
+  return {
+    generatedAt: Date.now(),
+    source,
+    summary: asString(data.summary),
+    sections: order
+      .map(focus => byFocus.get(focus))
+      .filter((s): s is CritiqueSection => !!s && (s.strengths.length > 0 || s.issues.length > 0)),
+    nextStep: asString(data.nextStep)
+  };
+}
+
+const focusLabel = (focus: LessonFocus) => FOCUS_AREAS.find(f => f.id === focus)?.label ?? focus;
+
+// Plain-text version, kept as the log entry's text so search and session reports see it.
+export function formatStillCritique(critique: StillCritique): string {
+  const lines = [critique.summary];
+  critique.sections.forEach(section => {
+    lines.push('', `${focusLabel(section.focus)}:`);
+    section.strengths.forEach(s => lines.push(`+ ${s}`));
+    section.issues.forEach(i => lines.push(`- ${i.issue} Fix: ${i.fix}`));
+  });
+  if (critique.nextStep) lines.push('', `Next step: ${critique.nextStep}`);
+  return lines.join('\n').trim();
+}
+
+// `image` is base64 JPEG; the lesson's own reference images are sent after it.
+export async function requestStillCritique(provider: CoachProvider, image: string, context: CritiqueContext): Promise<StillCritique> {
+  const reply = await provider.generate({
+    systemInstruction: STILL_CRITIQUE_INSTRUCTION + formatWrittenStyle(context.settings),
+    prompt: buildCritiquePrompt(context),
+    images: [image, ...(context.lesson.references ?? []).map(r => r.image)],
+    responseSchema: CRITIQUE_SCHEMA
+  });
+  return parseStillCritique(reply, context.source, context.lesson.focus);
+}
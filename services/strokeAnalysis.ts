@@ -0,0 +1,153 @@
+import { Stroke, StrokeMetrics, StrokeQualityReport } from '../types';
+
+// How many of the most recent strokes feed the rolling report.
+const SAMPLE_SIZE = 20;
+// How many earlier strokes a stroke is checked against for overlap.
+const OVERLAP_LOOKBACK = 10;
+// Extra slack (px) beyond the brush radius for two strokes to count as overlapping.
+const OVERLAP_TOLERANCE = 3;
+// Strokes shorter than this (px) are candidates for "petting the line".
+const SHORT_STROKE_LENGTH = 40;
+const PETTING_OVERLAP = 0.5;
+// Pen lifts are counted within this window before the latest stroke ends.
+export const LIFT_WINDOW_MS = 3000;
+// Segments shorter than this (px) are too noisy to give a heading.
+const MIN_SEGMENT_LENGTH = 1.5;
+
+const clamp01 = (v: number) => Math.min(1, Math.max(0, v));
+
+function wrapAngle(a: number): number {
+  while (a > Math.PI) a -= Math.PI * 2;
+  while (a < -Math.PI) a += Math.PI * 2;
+  return a;
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+}
+
+export function strokeLength(stroke: Stroke): number {
+  let length = 0;
+  for (let i = 1; i < stroke.points.length; i++) {
+    const a = stroke.points[i - 1];
+    const b = stroke.points[i];
+    length += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return length;
+}
+
+// 1 when the pen moves at an even speed, towards 0 as the speed varies
+// (coefficient of variation of per-segment speed).
+function speedConsistency(stroke: Stroke): number {
+  const speeds: number[] = [];
+  for (let i = 1; i < stroke.points.length; i++) {
+    const a = stroke.points[i - 1];
+    const b = stroke.points[i];
+    const dt = b.t - a.t;
+    if (dt > 0) speeds.push(Math.hypot(b.x - a.x, b.y - a.y) / dt);
+  }
+  if (speeds.length < 2) return 1;
+  const mean = average(speeds);
+  if (mean === 0) return 0;
+  const variance = average(speeds.map(s => (s - mean) ** 2));
+  return clamp01(1 - Math.sqrt(variance) / mean);
+}
+
+// Mean change in turning angle between consecutive segments, scaled to 0..1.
+// Smooth arcs turn steadily and score low; wobbly lines flip direction and score high.
+function curvatureJitter(stroke: Stroke): number {
+  const headings: number[] = [];
+  let anchor = stroke.points[0];
+  for (let i = 1; i < stroke.points.length; i++) {
+    const p = stroke.points[i];
+    if (Math.hypot(p.x - anchor.x, p.y - anchor.y) < MIN_SEGMENT_LENGTH) continue;
+    headings.push(Math.atan2(p.y - anchor.y, p.x - anchor.x));
+    anchor = p;
+  }
+  if (headings.length < 3) return 0;
+
+  const turns = headings.slice(1).map((h, i) => wrapAngle(h - headings[i]));
+  const changes = turns.slice(1).map((t, i) => Math.abs(wrapAngle(t - turns[i])));
+  return clamp01(average(changes) / Math.PI);
+}
+
+// Fraction of a stroke's points that land on top of earlier strokes.
+function overlapWith(stroke: Stroke, previous: Stroke[]): number {
+  if (previous.length === 0 || stroke.points.length === 0) return 0;
+  let covered = 0;
+  for (const p of stroke.points) {
+    const hit = previous.some(other => {
+      const reach = (stroke.size + other.size) / 2 + OVERLAP_TOLERANCE;
+      return other.points.some(q => Math.abs(q.x - p.x) <= reach && Math.abs(q.y - p.y) <= reach
+        && Math.hypot(q.x - p.x, q.y - p.y) <= reach);
+    });
+    if (hit) covered++;
+  }
+  return covered / stroke.points.length;
+}
+
+export function measureStroke(stroke: Stroke, previous: Stroke[]): StrokeMetrics {
+  const points = stroke.points;
+  const length = strokeLength(stroke);
+  const duration = points.length > 0 ? points[points.length - 1].t - points[0].t : 0;
+  const consistency = speedConsistency(stroke);
+  const jitter = curvatureJitter(stroke);
+  const overlap = overlapWith(stroke, previous.slice(-OVERLAP_LOOKBACK));
+  const isPetting = length < SHORT_STROKE_LENGTH && overlap >= PETTING_OVERLAP;
+
+  const lengthFactor = clamp01(length / SHORT_STROKE_LENGTH);
+  const quality = 0.4 * consistency + 0.3 * (1 - jitter) + 0.3 * (1 - overlap);
+  const confidence = Math.round(100 * quality * (0.5 + 0.5 * lengthFactor));
+
+  return {
+    strokeId: stroke.id,
+    length,
+    duration,
+    speedConsistency: consistency,
+    curvatureJitter: jitter,
+    overlap,
+    confidence,
+    isPetting
+  };
+}
+
+export function analyzeStrokes(strokes: Stroke[]): StrokeQualityReport | null {
+  // Erasing and smudging aren't line work, so they don't count towards the report
+  const drawn = strokes.filter(s => s.points.length > 0 && s.tool !== 'eraser' && s.tool !== 'blend');
+  if (drawn.length === 0) return null;
+
+  const start = Math.max(0, drawn.length - SAMPLE_SIZE);
+  const metrics = drawn.slice(start).map((stroke, i) => measureStroke(stroke, drawn.slice(0, start + i)));
+
+  const latest = drawn[drawn.length - 1];
+  const latestEnd = latest.points[latest.points.length - 1].t;
+  const liftsInWindow = drawn.filter(s => latestEnd - s.points[0].t <= LIFT_WINDOW_MS).length;
+
+  return {
+    strokeCount: drawn.length,
+    sampleSize: metrics.length,
+    averageLength: average(metrics.map(m => m.length)),
+    speedConsistency: average(metrics.map(m => m.speedConsistency)),
+    curvatureJitter: average(metrics.map(m => m.curvatureJitter)),
+    overlapRate: average(metrics.map(m => m.overlap)),
+    liftsInWindow,
+    pettingRate: metrics.filter(m => m.isPetting).length / metrics.length,
+    confidence: Math.round(average(metrics.map(m => m.confidence))),
+    latest: metrics[metrics.length - 1]
+  };
+}
+
+export function formatStrokeReport(report: StrokeQualityReport): string {
+  const pct = (v: number) => `${Math.round(v * 100)}%`;
+  return [
+    `[STROKE METRICS] Measured locally from the last ${report.sampleSize} of ${report.strokeCount} strokes.`,
+    `line_confidence: ${report.confidence}/100`,
+    `petting_rate: ${pct(report.pettingRate)} of strokes are short and retrace earlier lines`,
+    `overlap_rate: ${pct(report.overlapRate)}`,
+    `speed_consistency: ${pct(report.speedConsistency)}`,
+    `curvature_jitter: ${pct(report.curvatureJitter)}`,
+    `average_stroke_length: ${Math.round(report.averageLength)}px`,
+    `pen_lifts_last_${LIFT_WINDOW_MS / 1000}s: ${report.liftsInWindow}`,
+    `latest_stroke: ${Math.round(report.latest.length)}px, confidence ${report.latest.confidence}/100${report.latest.isPetting ? ', petting' : ''}`
+  ].join('\n');
+}
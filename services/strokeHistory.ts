@@ -0,0 +1,83 @@
+import { Stroke } from '../types';
+
+export const HISTORY_LIMIT = 100;
+
+export interface StrokeHistory {
+  past: Stroke[][];
+  present: Stroke[];
+  future: Stroke[][];
+}
+
+export function createHistory(strokes: Stroke[] = []): StrokeHistory {
+  return { past: [], present: strokes, future: [] };
+}
+
+// Every edit snapshots the stroke list. Strokes are never mutated once
+// committed, so snapshots share them and stay cheap.
+export function commit(history: StrokeHistory, next: Stroke[]): StrokeHistory {
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: []
+  };
+}
+
+export function addStroke(history: StrokeHistory, stroke: Stroke): StrokeHistory {
+  return commit(history, [...history.present, stroke]);
+}
+
+export function clearStrokes(history: StrokeHistory): StrokeHistory {
+  if (history.present.length === 0) return history;
+  return commit(history, []);
+}
+
+export function clearLayer(history: StrokeHistory, layerId: string): StrokeHistory {
+  const kept = history.present.filter(s => s.layerId !== layerId);
+  if (kept.length === history.present.length) return history;
+  return commit(history, kept);
+}
+
+const sameStrokes = (a: Stroke[], b: Stroke[]) => a.length === b.length && a.every((s, i) => s === b[i]);
+
+// Removes a deleted layer's strokes from every snapshot, so undo and redo never
+// bring back strokes without a layer. Steps that only touched that layer go too.
+export function dropLayer(history: StrokeHistory, layerId: string): StrokeHistory {
+  const strip = (strokes: Stroke[]) => strokes.some(s => s.layerId === layerId) ? strokes.filter(s => s.layerId !== layerId) : strokes;
+  const present = strip(history.present);
+  const dedupe = (snapshots: Stroke[][], next: Stroke[]) => {
+    const kept: Stroke[][] = [];
+    snapshots.map(strip).forEach(snapshot => {
+      if (!sameStrokes(snapshot, kept[kept.length - 1] ?? next)) kept.push(snapshot);
+    });
+    return kept;
+  };
+  const past = dedupe([...history.past].reverse(), present).reverse();
+  const future = dedupe(history.future, present);
+  return { past, present, future };
+}
+
+export function undo(history: StrokeHistory): StrokeHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+}
+
+export function redo(history: StrokeHistory): StrokeHistory {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+}
+
+export function canUndo(history: StrokeHistory): boolean {
+  return history.past.length > 0;
+}
+
+export function canRedo(history: StrokeHistory): boolean {
+  return history.future.length > 0;
+}
@@ -0,0 +1,381 @@
+import { Layer, Stroke, StrokePoint } from '../types';
+
+export const CANVAS_BACKGROUND = '#1e293b';
+// Pauses between strokes longer than this are shortened during replay.
+export const REPLAY_MAX_GAP_MS = 400;
+
+export interface ReplayEntry {
+  stroke: Stroke;
+  start: number;
+  end: number;
+}
+
+interface BrushDab {
+  width: number;
+  alpha: number;
+}
+
+const tiltAmount = (p: StrokePoint) => Math.min(1, Math.hypot(p.tiltX, p.tiltY) / 90);
+
+// Width and opacity of the brush at a point. Pressure thickens and darkens
+// the mark; tilting a stylus lays the side of the pencil or charcoal down,
+// which widens and lightens it.
+export function brushDab(stroke: Stroke, p: StrokePoint): BrushDab {
+  const pressure = p.pressure;
+  const tilt = tiltAmount(p);
+  switch (stroke.tool) {
+    case 'pencil':
+      return { width: stroke.size * (0.35 + 0.65 * pressure) * (1 + 1.5 * tilt), alpha: (0.3 + 0.6 * pressure) * (1 - 0.5 * tilt) };
+    case 'ink':
+      return { width: stroke.size * (0.25 + 1.25 * pressure), alpha: 1 };
+    case 'charcoal':
+      return { width: stroke.size * 2 * (0.5 + pressure) * (1 + tilt), alpha: 0.15 + 0.35 * pressure };
+    case 'eraser':
+      return { width: stroke.size * 3, alpha: 1 };
+    case 'blend':
+      return { width: stroke.size * 3, alpha: 0.25 + 0.4 * pressure };
+  }
+}
+
+// Small deterministic PRNG so charcoal grain comes out the same on every redraw.
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0 || 1;
+  return () => {
+    state ^= state << 13;
+    state ^= state >>> 17;
+    state ^= state << 5;
+    return (state >>> 0) / 4294967296;
+  };
+}
+
+function hashString(value: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function drawSegments(ctx: CanvasRenderingContext2D, stroke: Stroke, color: string, fromIndex: number) {
+  const { points } = stroke;
+  ctx.strokeStyle = color;
+  ctx.fillStyle = color;
+  if (points.length === 1) {
+    const dab = brushDab(stroke, points[0]);
+    ctx.globalAlpha = dab.alpha;
+    ctx.beginPath();
+    ctx.arc(points[0].x, points[0].y, dab.width / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+  for (let i = Math.max(1, fromIndex); i < points.length; i++) {
+    const a = brushDab(stroke, points[i - 1]);
+    const b = brushDab(stroke, points[i]);
+    ctx.globalAlpha = (a.alpha + b.alpha) / 2;
+    ctx.lineWidth = (a.width + b.width) / 2;
+    ctx.beginPath();
+    ctx.moveTo(points[i - 1].x, points[i - 1].y);
+    ctx.lineTo(points[i].x, points[i].y);
+    ctx.stroke();
+  }
+}
+
+function drawCharcoal(ctx: CanvasRenderingContext2D, stroke: Stroke, fromIndex: number) {
+  const { points } = stroke;
+  const seed = hashString(stroke.id);
+  ctx.fillStyle = stroke.color;
+  for (let i = Math.max(0, fromIndex); i < points.length; i++) {
+    const random = seededRandom(seed + i * 7919);
+    const p = points[i];
+    const prev = points[Math.max(0, i - 1)];
+    const dab = brushDab(stroke, p);
+    const steps = Math.max(1, Math.ceil(Math.hypot(p.x - prev.x, p.y - prev.y) / 2));
+    for (let s = 0; s < steps; s++) {
+      const t = steps === 1 ? 1 : s / (steps - 1);
+      const cx = prev.x + (p.x - prev.x) * t;
+      const cy = prev.y + (p.y - prev.y) * t;
+      // Scatter grains across the width of the stick
+      for (let g = 0; g < 6; g++) {
+        const angle = random() * Math.PI * 2;
+        const radius = Math.sqrt(random()) * dab.width / 2;
+        ctx.globalAlpha = dab.alpha * (0.4 + 0.6 * random());
+        ctx.fillRect(cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius, 1.2, 1.2);
+      }
+    }
+  }
+}
+
+// Share of the colour under the brush mixed into the colour it carries at each point.
+const BLEND_PICKUP = 0.3;
+// Colour is averaged over this many device px around each point.
+const BLEND_SAMPLE_RADIUS = 2;
+
+type Rgba = [number, number, number, number];
+
+// Premultiplied average of the pixels around (x, y), with `over` composited onto `under`.
+function sampleColor(over: Uint8ClampedArray, under: Uint8ClampedArray | null, width: number, height: number, x: number, y: number): Rgba {
+  const sum: Rgba = [0, 0, 0, 0];
+  let count = 0;
+  for (let sy = Math.max(0, y - BLEND_SAMPLE_RADIUS); sy <= Math.min(height - 1, y + BLEND_SAMPLE_RADIUS); sy++) {
+    for (let sx = Math.max(0, x - BLEND_SAMPLE_RADIUS); sx <= Math.min(width - 1, x + BLEND_SAMPLE_RADIUS); sx++) {
+      const i = (sy * width + sx) * 4;
+      const a = over[i + 3] / 255;
+      const b = under ? (under[i + 3] / 255) * (1 - a) : 0;
+      for (let c = 0; c < 3; c++) sum[c] += over[i + c] * a + (under ? under[i + c] * b : 0);
+      sum[3] += a + b;
+      count++;
+    }
+  }
+  return count > 0 ? sum.map(v => v / count) as Rgba : sum;
+}
+
+const rgbaStyle = ([r, g, b, a]: Rgba, alpha: number) => a > 0
+  ? `rgba(${Math.round(r / a)}, ${Math.round(g / a)}, ${Math.round(b / a)}, ${a * alpha})`
+  : 'transparent';
+
+const readPixels = (canvas: HTMLCanvasElement, left: number, top: number, width: number, height: number) =>
+  canvas.getContext('2d', { willReadFrequently: true })?.getImageData(left, top, width, height).data ?? null;
+
+// The smear of the blend stroke drawn last, kept so a stroke in progress only
+// has to blend its new points. Shared by every layer; a different stroke or
+// canvas size starts it over.
+let blendWork: HTMLCanvasElement | null = null;
+let blendState: { strokeId: string; drawn: number; carried: Rgba | null } | null = null;
+
+// Smudges by carrying colour along the stroke: at each point it picks up some of
+// what lies under the brush, from the layers below (`below`, in the same pixel
+// space as the layer) and the layer as it was before the stroke, and lays the
+// mix down. The smear is built up off-canvas with each segment replacing the
+// one before, so overlapping joints don't get darker. While a stroke is being
+// drawn over `base`, only the region around the new points is redone.
+function drawBlend(ctx: CanvasRenderingContext2D, stroke: Stroke, fromIndex: number, below?: HTMLCanvasElement, base?: HTMLCanvasElement) {
+  const { points } = stroke;
+  const { width: canvasWidth, height: canvasHeight } = ctx.canvas;
+  const work = blendWork ??= document.createElement('canvas');
+  if (work.width !== canvasWidth || work.height !== canvasHeight) {
+    work.width = canvasWidth;
+    work.height = canvasHeight;
+    blendState = null;
+  }
+  const workCtx = work.getContext('2d');
+  if (!workCtx) return;
+  // Carry on from the last render only if it was this stroke, drawn incrementally over the same base
+  const resume = base && fromIndex > 0 && blendState?.strokeId === stroke.id && blendState.drawn === fromIndex;
+  const state = resume && blendState ? blendState : { strokeId: stroke.id, drawn: 0, carried: null };
+  if (state.drawn === 0) {
+    workCtx.setTransform(1, 0, 0, 1, 0, 0);
+    workCtx.clearRect(0, 0, canvasWidth, canvasHeight);
+  }
+
+  // Device-px bounds of the points to blend, plus the segment leading into them
+  const transform = ctx.getTransform();
+  const scale = Math.hypot(transform.a, transform.b);
+  const first = Math.max(0, state.drawn - 1);
+  const device: DOMPoint[] = [];
+  let maxWidth = 0;
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (let i = first; i < points.length; i++) {
+    const p = transform.transformPoint(new DOMPoint(points[i].x, points[i].y));
+    device.push(p);
+    maxWidth = Math.max(maxWidth, brushDab(stroke, points[i]).width);
+    minX = Math.min(minX, p.x);
+    minY = Math.min(minY, p.y);
+    maxX = Math.max(maxX, p.x);
+    maxY = Math.max(maxY, p.y);
+  }
+  const pad = Math.ceil(maxWidth * scale / 2) + BLEND_SAMPLE_RADIUS + 1;
+  const left = Math.max(0, Math.floor(minX) - pad);
+  const top = Math.max(0, Math.floor(minY) - pad);
+  const right = Math.min(canvasWidth, Math.ceil(maxX) + pad);
+  const bottom = Math.min(canvasHeight, Math.ceil(maxY) + pad);
+  if (right <= left || bottom <= top) return;
+  const w = right - left;
+  const h = bottom - top;
+
+  const layerPixels = readPixels(base ?? ctx.canvas, left, top, w, h);
+  if (!layerPixels) return;
+  const belowPixels = below ? readPixels(below, left, top, w, h) : null;
+
+  workCtx.setTransform(transform);
+  workCtx.lineCap = 'round';
+  workCtx.lineJoin = 'round';
+  for (let i = state.drawn; i < points.length; i++) {
+    const d = device[i - first];
+    const sample = sampleColor(layerPixels, belowPixels, w, h, Math.round(d.x) - left, Math.round(d.y) - top);
+    if (state.carried) state.carried = state.carried.map((v, c) => v + (sample[c] - v) * BLEND_PICKUP) as Rgba;
+    else if (sample[3] > 0) state.carried = sample;
+    if (!state.carried) continue;
+    const from = points[Math.max(0, i - 1)];
+    const a = brushDab(stroke, from);
+    const b = brushDab(stroke, points[i]);
+    workCtx.lineWidth = (a.width + b.width) / 2;
+    workCtx.beginPath();
+    workCtx.moveTo(from.x, from.y);
+    workCtx.lineTo(points[i].x, points[i].y);
+    // Replace rather than layer over the previous segment, so joints don't build up
+    workCtx.globalCompositeOperation = 'destination-out';
+    workCtx.stroke();
+    workCtx.globalCompositeOperation = 'source-over';
+    workCtx.strokeStyle = rgbaStyle(state.carried, (a.alpha + b.alpha) / 2);
+    workCtx.stroke();
+  }
+  state.drawn = points.length;
+  blendState = state;
+
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  if (base) {
+    ctx.clearRect(left, top, w, h);
+    ctx.drawImage(base, left, top, w, h, left, top, w, h);
+  }
+  ctx.drawImage(work, left, top, w, h, left, top, w, h);
+  ctx.restore();
+}
+
+// Draws the stroke from `fromIndex` on, so a stroke in progress can be
+// painted one new segment at a time. Strokes are drawn onto transparent layer
+// canvases, so the eraser cuts through to whatever lies underneath. Blend
+// strokes also pick colour up from `below`; a blend stroke in progress is
+// painted over `base`, its layer as it was before the stroke.
+export function renderStroke(
+  ctx: CanvasRenderingContext2D,
+  stroke: Stroke,
+  fromIndex: number = 0,
+  below?: HTMLCanvasElement,
+  base?: HTMLCanvasElement
+) {
+  if (stroke.points.length === 0) return;
+
+  ctx.save();
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+  switch (stroke.tool) {
+    case 'charcoal':
+      drawCharcoal(ctx, stroke, fromIndex);
+      break;
+    case 'blend':
+      drawBlend(ctx, stroke, fromIndex, below, base);
+      break;
+    case 'eraser':
+      ctx.globalCompositeOperation = 'destination-out';
+      drawSegments(ctx, stroke, '#000', fromIndex);
+      break;
+    default:
+      drawSegments(ctx, stroke, stroke.color, fromIndex);
+  }
+  ctx.restore();
+}
+
+// A layer's picture, decoded and ready to draw.
+export interface LayerUnderlay {
+  image: CanvasImageSource;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Redraws one layer's strokes onto its own canvas, over the layer's picture if it
+// has one. `scale` maps stroke coordinates (CSS px) to canvas pixels. `below`
+// is only called if the layer has blend strokes.
+export function renderLayer(
+  canvas: HTMLCanvasElement,
+  strokes: Stroke[],
+  layerId: string,
+  scale: number,
+  underlay?: LayerUnderlay,
+  below?: () => HTMLCanvasElement
+) {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.clearRect(0, 0, canvas.width, canvas.height);
+  ctx.setTransform(scale, 0, 0, scale, 0, 0);
+  if (underlay) ctx.drawImage(underlay.image, underlay.x, underlay.y, underlay.width, underlay.height);
+  let belowImage: HTMLCanvasElement | undefined;
+  strokes.forEach(stroke => {
+    if (stroke.layerId !== layerId) return;
+    if (stroke.tool === 'blend' && below && !belowImage) belowImage = below();
+    renderStroke(ctx, stroke, 0, belowImage);
+  });
+}
+
+// Flattens the visible layers under `layerId` onto `target`, sized like the
+// layer canvases, for that layer's blend strokes to pick colour up from.
+export function compositeBelow(target: HTMLCanvasElement, layers: Layer[], layerId: string, canvases: Map<string, HTMLCanvasElement>): HTMLCanvasElement {
+  const source = canvases.get(layerId);
+  if (source && (target.width !== source.width || target.height !== source.height)) {
+    target.width = source.width;
+    target.height = source.height;
+  }
+  const ctx = target.getContext('2d', { willReadFrequently: true });
+  const index = layers.findIndex(l => l.id === layerId);
+  if (ctx) compositeLayers(ctx, layers.slice(0, Math.max(0, index)).filter(l => l.visible), canvases, null);
+  return target;
+}
+
+// Stacks the given layers, bottom first, over the background; null leaves it transparent.
+export function compositeLayers(
+  ctx: CanvasRenderingContext2D,
+  layers: Layer[],
+  canvases: Map<string, HTMLCanvasElement>,
+  background: string | null = CANVAS_BACKGROUND,
+) {
+  const { width, height } = ctx.canvas;
+  ctx.save();
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, width, height);
+  } else {
+    ctx.clearRect(0, 0, width, height);
+  }
+  for (const layer of layers) {
+    const canvas = canvases.get(layer.id);
+    if (!canvas) continue;
+    ctx.globalAlpha = layer.opacity;
+    ctx.drawImage(canvas, 0, 0, width, height);
+  }
+  ctx.restore();
+}
+
+export function buildReplayTimeline(strokes: Stroke[], maxGap: number = REPLAY_MAX_GAP_MS): ReplayEntry[] {
+  const timeline: ReplayEntry[] = [];
+  let cursor = 0;
+  let lastEnd: number | null = null;
+
+  for (const stroke of strokes) {
+    if (stroke.points.length === 0) continue;
+    const first = stroke.points[0].t;
+    const last = stroke.points[stroke.points.length - 1].t;
+    if (lastEnd !== null) {
+      cursor += Math.min(Math.max(first - lastEnd, 0), maxGap);
+    }
+    timeline.push({ stroke, start: cursor, end: cursor + (last - first) });
+    cursor += last - first;
+    lastEnd = last;
+  }
+  return timeline;
+}
+
+export function replayDuration(timeline: ReplayEntry[]): number {
+  return timeline.length > 0 ? timeline[timeline.length - 1].end : 0;
+}
+
+// Returns the strokes as they looked `elapsed` ms into the replay, with the
+// stroke in progress cut down to the points drawn so far.
+export function strokesAtTime(timeline: ReplayEntry[], elapsed: number): Stroke[] {
+  const visible: Stroke[] = [];
+  for (const { stroke, start, end } of timeline) {
+    if (elapsed < start) break;
+    if (elapsed >= end) {
+      visible.push(stroke);
+      continue;
+    }
+    const origin = stroke.points[0].t;
+    const points = stroke.points.filter(p => p.t - origin <= elapsed - start);
+    visible.push({ ...stroke, points });
+  }
+  return visible;
+}
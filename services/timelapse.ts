@@ -0,0 +1,298 @@
+// Records a thinned-out sequence of frames over a whole session and turns it
+// into a sped-up video. Frames are kept as small JPEG blobs; when the cap is
+// reached every other frame is dropped and the capture interval doubles, so a
+// long session still fits in memory and keeps an even spread over time.
+// Time while recording is stopped is left out, so sessions recorded into the
+// same timelapse follow straight on from each other.
+import { TranscriptionItem } from '../types';
+import { frameSignature, signatureDelta } from './frameScheduler';
+import { joinFragments } from './transcript';
+
+export interface TimelapseFrame {
+  timestamp: number;
+  // Recording time: ms on a clock that only runs while recording.
+  time: number;
+  image: Blob;
+}
+
+export interface TimelapseCaption {
+  timestamp: number;
+  time: number;
+  text: string;
+}
+
+export interface TimelapseOptions {
+  // Shortest gap between kept frames; grows as frames are thinned out.
+  intervalMs: number;
+  maxFrames: number;
+  maxDimension: number;
+  quality: number;
+  // Mean per-pixel change (0..1) needed to keep a frame.
+  changeThreshold: number;
+}
+
+export interface TimelapseInfo {
+  frames: number;
+  captions: number;
+  durationMs: number;
+}
+
+export interface TimelapseRecorder {
+  // Resolves true when the frame was kept.
+  capture: (source: HTMLCanvasElement, now?: number) => Promise<boolean>;
+  // Coach lines become captions; fragments of the same turn are joined.
+  addCaption: (item: TranscriptionItem) => void;
+  // Recording stopped; the time until the next frame or caption is skipped.
+  pause: (now?: number) => void;
+  reset: () => void;
+  readonly frames: TimelapseFrame[];
+  readonly captions: TimelapseCaption[];
+  readonly info: TimelapseInfo;
+}
+
+export function createTimelapseRecorder(options: TimelapseOptions): TimelapseRecorder {
+  let signatureCtx: CanvasRenderingContext2D | null = null;
+  let encodeCanvas: HTMLCanvasElement | null = null;
+  let frames: TimelapseFrame[] = [];
+  let captions: (TimelapseCaption & { turn?: number })[] = [];
+  let lastSignature: Uint8Array | null = null;
+  let intervalMs = options.intervalMs;
+  let pending = false;
+  // Real time left out of the recording so far, and when the current pause began
+  let skippedMs = 0;
+  let pausedAt: number | null = null;
+
+  const recordingTime = (now: number) => {
+    if (pausedAt !== null) {
+      skippedMs += Math.max(0, now - pausedAt);
+      pausedAt = null;
+    }
+    return now - skippedMs;
+  };
+
+  const encode = (source: HTMLCanvasElement): Promise<Blob | null> => {
+    encodeCanvas ??= document.createElement('canvas');
+    const scale = Math.min(1, options.maxDimension / Math.max(source.width, source.height));
+    encodeCanvas.width = Math.max(1, Math.round(source.width * scale));
+    encodeCanvas.height = Math.max(1, Math.round(source.height * scale));
+    encodeCanvas.getContext('2d')?.drawImage(source, 0, 0, encodeCanvas.width, encodeCanvas.height);
+    return new Promise(resolve => encodeCanvas!.toBlob(resolve, 'image/jpeg', options.quality));
+  };
+
+  const thin = () => {
+    frames = frames.filter((_, i) => i % 2 === 0 || i === frames.length - 1);
+    intervalMs *= 2;
+  };
+
+  return {
+    capture: async (source, now = Date.now()) => {
+      if (pending || !source.width || !source.height) return false;
+      const time = recordingTime(now);
+      const last = frames[frames.length - 1];
+      if (last && time - last.time < intervalMs) return false;
+
+      if (!signatureCtx) {
+        const canvas = document.createElement('canvas');
+        canvas.width = canvas.height = 32;
+        signatureCtx = canvas.getContext('2d', { willReadFrequently: true })!;
+      }
+      const signature = frameSignature(source, signatureCtx);
+      if (lastSignature && signatureDelta(signature, lastSignature) < options.changeThreshold) return false;
+
+      pending = true;
+      const image = await encode(source);
+      pending = false;
+      if (!image) return false;
+      lastSignature = signature;
+      frames.push({ timestamp: now, time, image });
+      if (frames.length > options.maxFrames) thin();
+      return true;
+    },
+    addCaption: (item) => {
+      if (item.type !== 'ai' || !item.text.trim()) return;
+      const last = captions[captions.length - 1];
+      if (last && item.turn !== undefined && last.turn === item.turn) {
+        last.text = joinFragments(last.text, item.text);
+      } else {
+        captions.push({ timestamp: item.timestamp, time: recordingTime(item.timestamp), text: item.text.trim(), turn: item.turn });
+      }
+    },
+    pause: (now = Date.now()) => {
+      pausedAt ??= now;
+    },
+    reset: () => {
+      frames = [];
+      captions = [];
+      lastSignature = null;
+      intervalMs = options.intervalMs;
+      skippedMs = 0;
+      pausedAt = null;
+    },
+    get frames() {
+      return frames;
+    },
+    get captions() {
+      return captions;
+    },
+    get info() {
+      return {
+        frames: frames.length,
+        captions: captions.length,
+        durationMs: frames.length > 1 ? frames[frames.length - 1].time - frames[0].time : 0
+      };
+    }
+  };
+}
+
+const VIDEO_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm', 'video/mp4'];
+
+// The best container this browser can record, or null if it can't record canvases at all.
+export function timelapseMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return VIDEO_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+export interface TimelapseExportOptions {
+  // Real seconds per second of video.
+  speed: number;
+  captions: boolean;
+  fps?: number;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}
+
+// Output time each caption stays up unless the next one replaces it.
+const CAPTION_HOLD_MS = 3500;
+// The finished drawing stays on screen this long at the end.
+const END_HOLD_MS = 1500;
+const MIN_VIDEO_MS = 2000;
+
+export function timelapseLengthMs(info: TimelapseInfo, speed: number): number {
+  return Math.max(MIN_VIDEO_MS, info.durationMs / speed) + END_HOLD_MS;
+}
+
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/)) {
+    const next = line ? `${line} ${word}` : word;
+    if (ctx.measureText(next).width > maxWidth && line) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = next;
+    }
+  }
+  if (line) lines.push(line);
+  // Long replies keep their latest lines, which match what was being said
+  return lines.length > maxLines ? ['…' + lines.slice(-maxLines)[0], ...lines.slice(-maxLines + 1)] : lines;
+}
+
+function drawCaption(ctx: CanvasRenderingContext2D, text: string, width: number, height: number) {
+  const fontSize = Math.max(14, Math.round(height / 28));
+  ctx.font = `600 ${fontSize}px Inter, sans-serif`;
+  const lines = wrapText(ctx, text, width * 0.86, 3);
+  const lineHeight = fontSize * 1.35;
+  const boxHeight = lines.length * lineHeight + fontSize;
+  const top = height - boxHeight - fontSize;
+  ctx.fillStyle = 'rgba(2, 6, 23, 0.75)';
+  ctx.fillRect(width * 0.05, top, width * 0.9, boxHeight);
+  ctx.fillStyle = '#e0e7ff';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'top';
+  lines.forEach((l, i) => ctx.fillText(l, width / 2, top + fontSize / 2 + i * lineHeight));
+  ctx.textAlign = 'left';
+}
+
+function drawClock(ctx: CanvasRenderingContext2D, elapsedMs: number, height: number) {
+  const total = Math.floor(elapsedMs / 1000);
+  const text = `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+  const fontSize = Math.max(12, Math.round(height / 36));
+  ctx.font = `700 ${fontSize}px monospace`;
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = 'rgba(2, 6, 23, 0.6)';
+  ctx.fillRect(8, 8, ctx.measureText(text).width + fontSize, fontSize * 1.6);
+  ctx.fillStyle = '#f8fafc';
+  ctx.fillText(text, 8 + fontSize / 2, 8 + fontSize * 0.3);
+}
+
+// Plays the frames onto a canvas in real time while MediaRecorder captures it,
+// so the export takes as long as the video it produces. Frames and captions are
+// placed by recording time, so pauses in recording don't show as frozen stretches.
+export async function exportTimelapse(
+  frames: TimelapseFrame[],
+  captions: TimelapseCaption[],
+  options: TimelapseExportOptions
+): Promise<Blob> {
+  const mimeType = timelapseMimeType();
+  if (!mimeType) throw new Error('This browser cannot record video.');
+  if (frames.length === 0) throw new Error('No frames were recorded.');
+  const { speed, fps = 30, onProgress, signal } = options;
+
+  const first = await createImageBitmap(frames[0].image);
+  const canvas = document.createElement('canvas');
+  // Even sizes keep video encoders happy
+  canvas.width = first.width - (first.width % 2);
+  canvas.height = first.height - (first.height % 2);
+  const ctx = canvas.getContext('2d')!;
+
+  const startedAt = frames[0].time;
+  const info = { frames: frames.length, captions: captions.length, durationMs: frames[frames.length - 1].time - startedAt };
+  const lengthMs = timelapseLengthMs(info, speed);
+  // Stretch short recordings so they still fill the minimum length
+  const scale = Math.max(speed, info.durationMs / (lengthMs - END_HOLD_MS));
+  const recordingTimeAt = (outputMs: number) => startedAt + outputMs * scale;
+  const outputTimeOf = (time: number) => (time - startedAt) / scale;
+
+  const stream = canvas.captureStream(fps);
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: 4_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  let current = first;
+  let currentIndex = 0;
+  const draw = (outputMs: number) => {
+    ctx.fillStyle = '#000000';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(current, 0, 0, canvas.width, canvas.height);
+    const time = Math.min(recordingTimeAt(outputMs), frames[frames.length - 1].time);
+    drawClock(ctx, time - startedAt, canvas.height);
+    if (options.captions) {
+      const caption = [...captions].reverse().find(c => c.time <= time);
+      if (caption && outputMs - outputTimeOf(caption.time) <= CAPTION_HOLD_MS) {
+        drawCaption(ctx, caption.text, canvas.width, canvas.height);
+      }
+    }
+  };
+
+  draw(0);
+  recorder.start(1000);
+  const begin = performance.now();
+  try {
+    while (true) {
+      if (signal?.aborted) throw new DOMException('Export cancelled', 'AbortError');
+      const outputMs = performance.now() - begin;
+      if (outputMs >= lengthMs) break;
+
+      let index = currentIndex;
+      while (index + 1 < frames.length && frames[index + 1].time <= recordingTimeAt(outputMs)) index++;
+      if (index !== currentIndex) {
+        const next = await createImageBitmap(frames[index].image);
+        current.close();
+        current = next;
+        currentIndex = index;
+      }
+      draw(outputMs);
+      onProgress?.(outputMs / lengthMs);
+      await new Promise(resolve => window.setTimeout(resolve, 1000 / fps));
+    }
+  } finally {
+    recorder.stop();
+    stream.getTracks().forEach(track => track.stop());
+    current.close();
+  }
+  await stopped;
+  onProgress?.(1);
+  return new Blob(chunks, { type: mimeType.split(';')[0] });
+}
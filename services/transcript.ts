@@ -0,0 +1,83 @@
+import { StillCritique, TranscriptionItem } from '../types';
+import { formatStillCritique } from './stillCritique';
+
+// A student who stays quiet this long has finished their turn, even if the coach didn't answer.
+const USER_PAUSE_MS = 5000;
+
+// Live transcription fragments carry their own spacing ("Hel", "lo there"); whole
+// sentences, like the mock coach's, need a space put back between them.
+export function joinFragments(text: string, fragment: string): string {
+  if (!text) return fragment.trimStart();
+  if (/\s$/.test(text) || /^\s/.test(fragment)) return text + fragment;
+  if (/[.!?,;:]$/.test(text) && /^[A-Z0-9"'(]/.test(fragment)) return `${text} ${fragment}`;
+  return text + fragment;
+}
+
+const close = (item: TranscriptionItem): TranscriptionItem => ({ ...item, text: item.text.trim(), complete: true });
+
+const replaceAt = (items: TranscriptionItem[], index: number, item: TranscriptionItem) =>
+  [...items.slice(0, index), item, ...items.slice(index + 1)];
+
+// The open turn is always the last item; anything earlier has been closed.
+function openIndex(items: TranscriptionItem[]): number {
+  const last = items[items.length - 1];
+  return last && !last.complete ? items.length - 1 : -1;
+}
+
+export function appendFragment(
+  items: TranscriptionItem[],
+  fragment: string,
+  type: TranscriptionItem['type'],
+  turn: number | undefined,
+  now: number = Date.now()
+): TranscriptionItem[] {
+  const index = openIndex(items);
+  const open = index >= 0 ? items[index] : null;
+  const continues = open && open.type === type && open.turn === turn &&
+    !(type === 'user' && now - (open.endTimestamp ?? open.timestamp) > USER_PAUSE_MS);
+  if (open && continues) {
+    return replaceAt(items, index, { ...open, text: joinFragments(open.text, fragment), endTimestamp: now });
+  }
+
+  // A new speaker (or a long pause) ends whatever turn was open
+  const closed = open ? replaceAt(items, index, close(open)) : items;
+  const text = fragment.trimStart();
+  if (!text) return closed;
+  return [...closed, { id: crypto.randomUUID(), text, type, timestamp: now, endTimestamp: now, turn }];
+}
+
+// A whole message at once, such as typed text.
+export function addTurn(
+  items: TranscriptionItem[],
+  text: string,
+  type: TranscriptionItem['type'],
+  now: number = Date.now()
+): TranscriptionItem[] {
+  return [...closeOpenTurn(items), { id: crypto.randomUUID(), text, type, timestamp: now, endTimestamp: now, complete: true }];
+}
+
+// A written critique from the coach, shown in the log section by section.
+export function addCritique(items: TranscriptionItem[], critique: StillCritique): TranscriptionItem[] {
+  const withTurn = addTurn(items, formatStillCritique(critique), 'ai', critique.generatedAt);
+  return [...withTurn.slice(0, -1), { ...withTurn[withTurn.length - 1], critique }];
+}
+
+export function closeOpenTurn(items: TranscriptionItem[], type?: TranscriptionItem['type']): TranscriptionItem[] {
+  const index = openIndex(items);
+  if (index < 0 || (type && items[index].type !== type)) return items;
+  return replaceAt(items, index, close(items[index]));
+}
+
+// The coach stopped mid-reply because the student spoke; marks every part of that turn.
+export function markInterrupted(items: TranscriptionItem[], turn: number): TranscriptionItem[] {
+  if (!items.some(t => t.type === 'ai' && t.turn === turn && !t.interrupted)) return items;
+  return items.map(t => t.type === 'ai' && t.turn === turn ? { ...close(t), interrupted: true } : t);
+}
+
+export function togglePinned(items: TranscriptionItem[], id: string): TranscriptionItem[] {
+  return items.map(t => t.id === id ? { ...t, pinned: !t.pinned } : t);
+}
+
+export function matchesSearch(item: TranscriptionItem, query: string): boolean {
+  return !query || item.text.toLowerCase().includes(query.toLowerCase());
+}
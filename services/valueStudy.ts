@@ -0,0 +1,126 @@
+import { TrackingMode, ValueReport, ValueStudySettings, ValueSteps } from '../types';
+
+export const HISTOGRAM_BINS = 32;
+// Share of pixels ignored at each end when finding the value range.
+const RANGE_TAIL = 0.01;
+const LIGHT_MARKER_COLOR = '#f59e0b';
+// Bands are posterized to evenly spaced grays from black to white.
+const bandGray = (band: number, steps: ValueSteps) => Math.round((band / (steps - 1)) * 255);
+
+const luminance = (r: number, g: number, b: number) => 0.299 * r + 0.587 * g + 0.114 * b;
+
+export function valueBand(lum: number, steps: ValueSteps): number {
+  return Math.min(steps - 1, Math.floor((lum / 256) * steps));
+}
+
+// Draws source into target, shrunk to maxDimension and posterized into `steps` grays,
+// and measures how the frame's values are spread.
+export function analyzeValues(
+  target: HTMLCanvasElement,
+  source: HTMLCanvasElement,
+  steps: ValueSteps,
+  maxDimension: number
+): ValueReport | null {
+  if (!source.width || !source.height) return null;
+  const scale = Math.min(1, maxDimension / Math.max(source.width, source.height));
+  target.width = Math.max(1, Math.round(source.width * scale));
+  target.height = Math.max(1, Math.round(source.height * scale));
+  const ctx = target.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, target.width, target.height);
+
+  const image = ctx.getImageData(0, 0, target.width, target.height);
+  const { data } = image;
+  const pixels = data.length / 4;
+  const bands = new Array<number>(steps).fill(0);
+  const histogram = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    const lum = luminance(data[i], data[i + 1], data[i + 2]);
+    const band = valueBand(lum, steps);
+    bands[band]++;
+    histogram[Math.min(HISTOGRAM_BINS - 1, Math.floor((lum / 256) * HISTOGRAM_BINS))]++;
+    data[i] = data[i + 1] = data[i + 2] = bandGray(band, steps);
+  }
+  ctx.putImageData(image, 0, 0);
+
+  const shares = histogram.map(count => count / pixels);
+  const edge = (bins: number[]) => {
+    let total = 0;
+    return bins.findIndex(share => (total += share) > RANGE_TAIL);
+  };
+  const lowBin = edge(shares);
+  const highBin = HISTOGRAM_BINS - 1 - edge([...shares].reverse());
+  return {
+    steps,
+    bands: bands.map(count => count / pixels),
+    histogram: shares,
+    low: Math.round((lowBin / HISTOGRAM_BINS) * 100),
+    high: Math.round(((highBin + 1) / HISTOGRAM_BINS) * 100)
+  };
+}
+
+// Sun at the edge the light comes from, with an arrow pointing into the frame.
+export function drawLightMarker(target: HTMLCanvasElement, angleDeg: number) {
+  const ctx = target.getContext('2d');
+  if (!ctx) return;
+  const { width, height } = target;
+  const rad = (angleDeg * Math.PI) / 180;
+  const dx = Math.sin(rad);
+  const dy = -Math.cos(rad);
+  const size = Math.max(6, Math.min(width, height) / 24);
+  const reach = Math.min(width, height) / 2 - size * 1.5;
+  const sun = { x: width / 2 + dx * reach, y: height / 2 + dy * reach };
+  const tip = { x: width / 2 + dx * reach * 0.45, y: height / 2 + dy * reach * 0.45 };
+
+  ctx.strokeStyle = ctx.fillStyle = LIGHT_MARKER_COLOR;
+  ctx.lineWidth = Math.max(2, size / 3);
+  ctx.beginPath();
+  ctx.arc(sun.x, sun.y, size, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.beginPath();
+  ctx.moveTo(sun.x - dx * size * 1.5, sun.y - dy * size * 1.5);
+  ctx.lineTo(tip.x, tip.y);
+  ctx.stroke();
+  const head = Math.atan2(tip.y - sun.y, tip.x - sun.x);
+  ctx.beginPath();
+  ctx.moveTo(tip.x, tip.y);
+  ctx.lineTo(tip.x - Math.cos(head - 0.5) * size * 1.5, tip.y - Math.sin(head - 0.5) * size * 1.5);
+  ctx.lineTo(tip.x - Math.cos(head + 0.5) * size * 1.5, tip.y - Math.sin(head + 0.5) * size * 1.5);
+  ctx.closePath();
+  ctx.fill();
+}
+
+// The frame shrunk to the value map's size, then the map, as base64 JPEGs for the coach.
+export function encodeValueStudy(scratch: HTMLCanvasElement, source: HTMLCanvasElement, map: HTMLCanvasElement, quality: number): string[] {
+  scratch.width = map.width;
+  scratch.height = map.height;
+  scratch.getContext('2d')?.drawImage(source, 0, 0, map.width, map.height);
+  return [scratch, map].map(canvas => canvas.toDataURL('image/jpeg', quality).split(',')[1]);
+}
+
+const DIRECTIONS = ['the top', 'the upper right', 'the right', 'the lower right', 'below', 'the lower left', 'the left', 'the upper left'];
+
+export function lightDirectionLabel(angleDeg: number): string {
+  return DIRECTIONS[Math.round((((angleDeg % 360) + 360) % 360) / 45) % DIRECTIONS.length];
+}
+
+// Total change in band shares between two reports, 0 (same) to 2.
+export function valueReportDelta(a: ValueReport, b: ValueReport): number {
+  if (a.steps !== b.steps) return 2;
+  return a.bands.reduce((sum, share, i) => sum + Math.abs(share - b.bands[i]), 0);
+}
+
+export function formatValueStudy(report: ValueReport, settings: ValueStudySettings, mode: TrackingMode): string {
+  const shares = report.bands.map(b => `${Math.round(b * 100)}%`).join(' / ');
+  const light = settings.lightAngleDeg === null
+    ? 'The student has not set a light direction.'
+    : `The light comes from ${lightDirectionLabel(settings.lightAngleDeg)}; the orange sun and arrow on the value map mark it.`;
+  return [
+    `[VALUE STUDY] Two images: the ${mode === 'digital' ? 'canvas' : 'camera frame'} as it is, then the same frame posterized into ${report.steps} values from black to white.`,
+    `Share of the frame in each value, darkest first: ${shares}.`,
+    `Values used span ${report.low}–${report.high}% lightness.`,
+    light
+  ].join(' ');
+}
+
+export const VALUE_STUDY_CLOSED_NOTE = '[VALUE STUDY] The student closed the value study; frames no longer come with a value map.';
@@ -1,13 +1,379 @@
 
+export type LessonFocus = 'shapes' | 'anatomy' | 'perspective' | 'lighting' | 'gesture';
+
+// `manual` waits for the student to press Next; `strokes` completes once
+// enough strokes have been drawn in the Digital Studio during the step.
+export type StepCompletion =
+  | { type: 'manual' }
+  | { type: 'strokes'; count: number };
+
+export interface LessonStep {
+  id: string;
+  title: string;
+  instruction: string;
+  timeLimitSec?: number;
+  completion: StepCompletion;
+}
+
+// Reference image that ships with a lesson, as a base64 JPEG.
+export interface LessonReference {
+  name: string;
+  image: string;
+}
+
 export interface Lesson {
   id: string;
   title: string;
   description: string;
-  focus: 'shapes' | 'anatomy' | 'perspective' | 'lighting' | 'gesture';
+  focus: LessonFocus;
+  prerequisites?: string[];
+  steps: LessonStep[];
+  // Extra guidance for the coach, written by the lesson's author.
+  coachInstructions?: string;
+  references?: LessonReference[];
+  // Written in the lesson editor or imported, rather than built in.
+  custom?: boolean;
 }
 
+export interface LessonRunState {
+  lessonId: string;
+  stepIndex: number;
+  stepStartedAt: number;
+  // Strokes drawn so far (see stepStrokesDrawn) when the step began.
+  stepStrokeBase: number;
+  completed: boolean;
+}
+
+// One turn of the conversation, assembled from streaming transcription fragments.
+// The optional fields are missing on transcripts saved before turns were assembled.
 export interface TranscriptionItem {
+  id?: string;
   text: string;
   type: 'user' | 'ai';
+  // When the turn started; endTimestamp is when its latest fragment arrived.
   timestamp: number;
+  endTimestamp?: number;
+  // Set once the turn is over; later fragments start a new turn.
+  complete?: boolean;
+  // The student talked over the coach before it finished.
+  interrupted?: boolean;
+  pinned?: boolean;
+  // Coach turn the text belongs to; links it to the annotations drawn in that turn.
+  turn?: number;
+  // Set on written critiques of a single image; `text` holds the same critique as plain text.
+  critique?: StillCritique;
+}
+
+// How often the coach speaks up without being asked.
+export type FeedbackFrequency = 'constant' | 'pauses' | 'on-request';
+export type CoachTone = 'gentle' | 'balanced' | 'strict';
+export type SkillLevel = 'beginner' | 'intermediate' | 'advanced';
+
+export interface CoachSettings {
+  frequency: FeedbackFrequency;
+  tone: CoachTone;
+  skillLevel: SkillLevel;
+  // Prebuilt Gemini voice name.
+  voice: string;
+  // Language the coach speaks and writes in, by English name (e.g. "Spanish").
+  language: string;
+}
+
+export type BrushTool = 'pencil' | 'ink' | 'charcoal' | 'eraser' | 'blend';
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+  t: number;
+  // 0..1; mouse and touch report a constant 0.5.
+  pressure: number;
+  // Stylus tilt in degrees (-90..90); 0 when upright or not reported.
+  tiltX: number;
+  tiltY: number;
+}
+
+export interface Stroke {
+  id: string;
+  points: StrokePoint[];
+  color: string;
+  size: number;
+  tool: BrushTool;
+  pointerType: 'mouse' | 'pen' | 'touch';
+  layerId: string;
+}
+
+// Picture placed under a layer's strokes, e.g. an imported photo to trace over.
+// Position and size are in canvas CSS px, like stroke points.
+export interface LayerImage {
+  // Data URL, so saved artwork stays self-contained.
+  src: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Layer {
+  id: string;
+  name: string;
+  visible: boolean;
+  locked: boolean;
+  // 0..1, applied to the whole layer when it is composited.
+  opacity: number;
+  // Whether the layer is part of the frames the coach sees.
+  sendToCoach: boolean;
+  image?: LayerImage;
+}
+
+export interface StrokeMetrics {
+  strokeId: string;
+  length: number;
+  duration: number;
+  speedConsistency: number;
+  curvatureJitter: number;
+  overlap: number;
+  confidence: number;
+  isPetting: boolean;
+}
+
+export interface StrokeQualityReport {
+  strokeCount: number;
+  sampleSize: number;
+  averageLength: number;
+  speedConsistency: number;
+  curvatureJitter: number;
+  overlapRate: number;
+  liftsInWindow: number;
+  pettingRate: number;
+  confidence: number;
+  latest: StrokeMetrics;
+}
+
+// Number of value bands the frame is posterized into, black to white.
+export type ValueSteps = 3 | 5 | 9;
+
+export interface ValueStudySettings {
+  steps: ValueSteps;
+  // Where the light comes from, in degrees clockwise from straight up; null until the student sets it.
+  lightAngleDeg: number | null;
+}
+
+export interface ValueReport {
+  steps: ValueSteps;
+  // Share of the frame (0..1) in each value band, darkest first.
+  bands: number[];
+  // Luminance histogram as shares of the frame, darkest bin first.
+  histogram: number[];
+  // Lightness range actually used (0..100), ignoring the darkest and lightest specks.
+  low: number;
+  high: number;
 }
+
+export type PerspectiveMode = 'off' | 'horizon' | '1-point' | '2-point' | '3-point';
+
+// Guide positions are in canvas CSS px, the same space as stroke points.
+export interface GuideSettings {
+  // Size of the canvas the guides were laid out on.
+  width: number;
+  height: number;
+  perspective: PerspectiveMode;
+  horizonY: number;
+  // Left and right vanishing points sit on the horizon; only their x is stored.
+  vp1X: number;
+  vp2X: number;
+  // Third (vertical) vanishing point for 3-point perspective.
+  vp3: Point;
+  showFigureRuler: boolean;
+  rulerX: number;
+  rulerTop: number;
+  rulerBottom: number;
+}
+
+// A direction straight lines can converge on: a vanishing point, or a family
+// of parallel lines that stay parallel in this perspective mode.
+export type PerspectiveTarget = 'VP1' | 'VP2' | 'VP3' | 'verticals' | 'horizontals';
+
+export interface PerspectiveTargetStats {
+  target: PerspectiveTarget;
+  strokes: number;
+  averageErrorDeg: number;
+}
+
+export interface PerspectiveReport {
+  mode: PerspectiveMode;
+  checkedStrokes: number;
+  averageErrorDeg: number;
+  // Share of checked strokes within the tolerance, 0..1.
+  withinTolerance: number;
+  targets: PerspectiveTargetStats[];
+  worst: { strokeId: string; target: PerspectiveTarget; errorDeg: number } | null;
+}
+
+export type TrackingMode = 'digital' | 'physical';
+
+export interface SessionSnapshot {
+  timestamp: number;
+  image: string;
+}
+
+export interface GestureReference {
+  id: string;
+  name: string;
+  // Object URL for the local file.
+  url: string;
+}
+
+export interface GestureRunState {
+  references: GestureReference[];
+  index: number;
+  durationSec: number;
+  poseStartedAt: number;
+  pausedAt: number | null;
+  finished: boolean;
+}
+
+export interface GestureAttempt {
+  referenceName: string;
+  // Base64 JPEGs.
+  reference: string | null;
+  attempt: string;
+  durationSec: number;
+  completedAt: number;
+}
+
+export interface ReportMistake {
+  focus: LessonFocus;
+  issue: string;
+  // How many times the coach raised it.
+  occurrences: number;
+  fix: string;
+}
+
+export interface ReportExercise {
+  focus: LessonFocus;
+  title: string;
+  description: string;
+}
+
+export interface ReportMoment {
+  timestamp: number;
+  // Base64 JPEG.
+  image: string;
+  caption: string;
+}
+
+// 0..100 per focus area; areas that weren't practised are left out.
+export type SkillScores = Partial<Record<LessonFocus, number>>;
+
+// Written summary created when a session ends.
+export interface SessionReport {
+  generatedAt: number;
+  summary: string;
+  // Missing on reports written before progress tracking existed.
+  scores?: SkillScores;
+  strengths: string[];
+  mistakes: ReportMistake[];
+  exercises: ReportExercise[];
+  moments: ReportMoment[];
+}
+
+// Where the image for a written critique came from.
+export type CritiqueSource = 'canvas' | 'camera' | 'upload';
+
+export interface CritiqueSection {
+  focus: LessonFocus;
+  strengths: string[];
+  // Problems paired with how to fix them, most important first.
+  issues: { issue: string; fix: string }[];
+}
+
+// Written critique of one image, asked for outside the live session.
+export interface StillCritique {
+  generatedAt: number;
+  source: CritiqueSource;
+  summary: string;
+  // The lesson's focus first, then focus-area order; areas with nothing to say about are left out.
+  sections: CritiqueSection[];
+  nextStep: string;
+}
+
+// One finished session in the local progress history.
+export interface ProgressEntry {
+  sessionId: string;
+  lessonId: string;
+  focus: LessonFocus;
+  startedAt: number;
+  durationMs: number;
+  // Measured on the device from stroke and perspective metrics.
+  localScores: SkillScores;
+  // From the session report; missing until the coach has written it.
+  coachScores?: SkillScores;
+}
+
+// What the coach's frames show when a reference is loaded.
+export type ReferenceLayout = 'side-by-side' | 'overlay';
+// How the reference is shown over the canvas locally; never sent.
+export type ReferenceView = 'hidden' | 'onion-skin' | 'difference';
+
+export interface ReferenceImage {
+  name: string;
+  // Object URL for the local file.
+  url: string;
+  image: HTMLImageElement;
+  // Base64 JPEG, shrunk for sending and saving.
+  data: string;
+}
+
+export interface ReferenceSettings {
+  layout: ReferenceLayout;
+  view: ReferenceView;
+  opacity: number;
+}
+
+export interface SavedSession {
+  id: string;
+  lessonId: string;
+  lessonTitle: string;
+  trackingMode: TrackingMode;
+  startedAt: number;
+  endedAt: number;
+  transcript: TranscriptionItem[];
+  snapshots: SessionSnapshot[];
+  finalArtwork: string | null;
+  // Missing on sessions saved before gesture practice existed.
+  gestures?: GestureAttempt[];
+  // The last reference image loaded during the session, as base64 JPEG.
+  reference?: { name: string; image: string };
+  report?: SessionReport;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left.
+export type Quad = [Point, Point, Point, Point];
+
+// Coach markup drawn over the student's work. Points are in annotation
+// space: 0..1000 across the width and height of the frame the coach saw.
+export type AnnotationShape =
+  | { kind: 'circle'; center: Point; radius: number }
+  | { kind: 'arrow'; from: Point; to: Point }
+  | { kind: 'correction'; from: Point; to: Point }
+  | { kind: 'vanishing-point'; at: Point }
+  | { kind: 'horizon'; y: number }
+  | { kind: 'label'; at: Point; text: string };
+
+export interface Annotation {
+  id: string;
+  shape: AnnotationShape;
+  label?: string;
+  // The coach turn (see TranscriptionItem.turn) that drew it.
+  turn: number;
+  shownAt: number;
+  // 0 keeps the annotation until it is cleared.
+  ttlMs: number;
+  cleared: boolean;
+}
+